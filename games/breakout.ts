@@ -12,12 +12,17 @@ import {
   drawStartMessageBox,
   drawString,
   fillRect,
+  getMusicRow,
   getU8,
   HEIGHT,
+  isMusicPlaying,
   log,
+  playMusic,
   playSfx,
   RAM_START,
+  setMusicOrder,
   setU8,
+  stopMusic,
   WIDTH,
 } from "../sdk";
 
@@ -40,6 +45,11 @@ const BRICK_OFFSET_Y: i32 = 30;
 
 const STARTING_LIVES: i32 = 3;
 
+// Music (assets/music/1-breakout_theme.song.json)
+const MUSIC_THEME: u32 = 1;
+const MUSIC_ORDER_FANFARE: i32 = 0; // Intro pattern, replayed when a level is cleared
+const MUSIC_ROWS_PER_BEAT: i32 = 4;
+
 // Brick colors by row
 const BRICK_COLORS: u32[] = [
   0xff0000, // Red
@@ -171,6 +181,7 @@ function checkCollisions(): void {
     
     if (gameVars.lives <= 0) {
       gameVars.state = GameState.GAME_OVER as u8;
+      stopMusic();
       log("Game Over!");
     } else {
       resetBall();
@@ -220,6 +231,7 @@ function checkCollisions(): void {
         // Check for level complete
         if (gameVars.bricksRemaining == 0) {
           gameVars.state = GameState.LEVEL_COMPLETE as u8;
+          setMusicOrder(MUSIC_ORDER_FANFARE);
           log("Level Complete!");
         }
         
@@ -254,6 +266,7 @@ export function update(): void {
   // Start game from start screen
   if (state == GameState.START_SCREEN && buttonPressed(Button.START)) {
     gameVars.state = GameState.PLAYING as u8;
+    playMusic(MUSIC_THEME, 0.5);
     return;
   }
   
@@ -324,8 +337,9 @@ export function draw(): void {
     }
   }
   
-  // Draw paddle
-  fillRect(paddleX, PADDLE_Y, PADDLE_WIDTH, PADDLE_HEIGHT, c(0x00aaff));
+  // Draw paddle, lit up on every beat of the music
+  const onBeat = isMusicPlaying() && getMusicRow() % MUSIC_ROWS_PER_BEAT == 0;
+  fillRect(paddleX, PADDLE_Y, PADDLE_WIDTH, PADDLE_HEIGHT, onBeat ? c(0x66ccff) : c(0x00aaff));
   
   // Draw ball
   fillRect(ballX, ballY, BALL_SIZE, BALL_SIZE, c(0xffffff));
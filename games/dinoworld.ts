@@ -5,26 +5,44 @@ import {
   Button,
   HEIGHT,
   RAM_START,
+  TileFlag,
   WIDTH,
   buttonDown,
   buttonPressed,
   c,
   clearFramebuffer,
-  drawNumber,
+  drawNumberScreen,
   drawSprite,
+  drawSpriteScreen,
   drawStartMessageBox,
-  drawString,
-  fillCircle,
+  drawStringScreen,
+  drawTilemap,
+  fillCircleScreen,
   fillRect,
+  findMapObject,
+  getMapObject,
+  getTileFlagsInRect,
+  loadMap,
   log,
   playSfx,
+  random,
+  resetCamera,
+  shakeCamera,
 } from "../sdk";
 
 // === Constants ===
 const GRAVITY: f32 = 0.5;
 const JUMP_FORCE: f32 = -8.0;
 const MOVE_SPEED: f32 = 2.0;
-const GROUND_Y: i32 = 200;
+
+// Level: assets/maps/0-dinoworld.tmj, one screen of 8×8 tiles from 20~3x1-tiles.png
+const LEVEL_MAP: i32 = 0;
+const LEVEL_LAYER: i32 = 0;
+const TILE_SIZE: i32 = 8;
+
+// Object types of the level's "spawns" layer (class "0-player", "1-coin")
+const OBJ_PLAYER: u8 = 0;
+const OBJ_COIN: u8 = 1;
 
 // Game states
 enum GameState {
@@ -33,15 +51,6 @@ enum GameState {
   GAME_OVER = 2,
 }
 
-// Platform definition
-@unmanaged
-class Platform {
-  x: i32 = 0;
-  y: i32 = 0;
-  w: i32 = 0;
-  h: i32 = 0;
-}
-
 // Spike trap definition
 @unmanaged
 class Spike {
@@ -59,49 +68,40 @@ class Coin {
   active: bool = 0;
 }
 
-// Define platforms (x, y, width, height)
-const platforms: Platform[] = [
-  { x: 0, y: GROUND_Y, w: WIDTH, h: 40 },      // Ground
-  { x: 50, y: 160, w: 60, h: 8 },              // Platform 1
-  { x: 150, y: 130, w: 70, h: 8 },             // Platform 2
-  { x: 240, y: 100, w: 60, h: 8 },             // Platform 3
-  { x: 120, y: 70, w: 80, h: 8 },              // Platform 4 (top)
-];
-
-// Spike traps that fall from the sky
+// Spike traps that fall from the sky (stored in RAM after GameVars)
 const SPIKE_COUNT: i32 = 3;
-const spikes: Spike[] = [
-  { x: 100, y: -20, speed: 1.5, active: false },
-  { x: 200, y: -20, speed: 1.8, active: false },
-  { x: 280, y: -20, speed: 1.3, active: false },
-];
+const SPIKE_DATA: usize = RAM_START + 52; // 3 spikes x 16 bytes
+const SPIKE_STRIDE: usize = 16;
 
-// Collectible coin (one at a time)
-const coin: Coin = { x: 0, y: 0, active: false };
+function getSpike(index: i32): Spike {
+  return changetype<Spike>(SPIKE_DATA + (index as usize) * SPIKE_STRIDE);
+}
 
-// RNG seed for random coin placement
-let coinRngSeed: i32 = 54321;
+// Collectible coin (one at a time)
+const coin = changetype<Coin>(RAM_START + 100);
 
-// Helper function to get random number
+// Helper function to get random number for coin placement
 function randomCoinInt(max: i32): i32 {
-  coinRngSeed = (coinRngSeed * 1103515245 + 12345) & 0x7fffffff;
-  return (coinRngSeed % max);
+  return random(RAM_START + 48) % max; // coinRngSeed offset
 }
 
-// Spawn a new coin at a random platform location
+// Spawn a new coin at one of the level's coin spawn points
 function spawnRandomCoin(): void {
-  const platformIndex = randomCoinInt(platforms.length);
-  const plat = platforms[platformIndex];
-  
-  // Random X position on the platform (with some margin)
-  const margin = 20;
-  const coinX = plat.x + margin + randomCoinInt(plat.w - margin * 2);
-  
-  // Y position just above the platform (24x24 sprite)
-  const coinY = plat.y - 24;
-  
-  coin.x = coinX;
-  coin.y = coinY;
+  // Count the coin objects, then pick one of them
+  let spots = 0;
+  for (let i = findMapObject(LEVEL_MAP, OBJ_COIN); i >= 0; i = findMapObject(LEVEL_MAP, OBJ_COIN, i + 1)) {
+    spots++;
+  }
+  if (spots == 0) return;
+
+  let index = findMapObject(LEVEL_MAP, OBJ_COIN);
+  for (let pick = randomCoinInt(spots); pick > 0; pick--) {
+    index = findMapObject(LEVEL_MAP, OBJ_COIN, index + 1);
+  }
+
+  const spot = getMapObject(LEVEL_MAP, index);
+  coin.x = spot.x as i32;
+  coin.y = spot.y as i32;
   coin.active = true;
 }
 
@@ -123,6 +123,7 @@ class GameVars {
   invulnTimer: i32 = 0;   // 36 (invulnerability after hit)
   gameTimer: i32 = 0;     // 40
   coinsCollected: i32 = 0; // 44
+  coinRngSeed: i32 = 0;   // 48
 }
 
 const gameVars = changetype<GameVars>(RAM_START);
@@ -134,6 +135,7 @@ const HEAD_TRANSPARENT: i32 = 6; // Don't collide with last 6 pixels on head sid
 const COLLISION_WIDTH: i32 = PLAYER_WIDTH - TAIL_LENGTH - HEAD_TRANSPARENT; // 16 pixels
 const STARTING_LIVES: i32 = 5;
 const INVULN_TIME: i32 = 120; // 2 seconds at 60fps
+const SHAKE_TIME: i32 = 20; // Screen shake at the start of the invulnerability
 const DIFFICULTY_SCALE: f32 = 10; // Lower = faster difficulty increase (10 => one 10th per second)
 
 // === lifecycle ===
@@ -141,9 +143,10 @@ const DIFFICULTY_SCALE: f32 = 10; // Lower = faster difficulty increase (10 => o
 export function init(): void {
   clearFramebuffer(c(0x87CEEB)); // Sky blue
 
-  // Initialize player position
-  gameVars.playerX = 50;
-  gameVars.playerY = 50;
+  // Initialize player position from the level's start point
+  const start = getMapObject(LEVEL_MAP, max(findMapObject(LEVEL_MAP, OBJ_PLAYER), 0));
+  gameVars.playerX = start.x as f32;
+  gameVars.playerY = start.y as f32;
   gameVars.velocityX = 0;
   gameVars.velocityY = 0;
   gameVars.grounded = 0;
@@ -156,14 +159,17 @@ export function init(): void {
   gameVars.gameTimer = 0;
   gameVars.coinsCollected = 0;
 
+  loadMap(LEVEL_MAP, 0, LEVEL_LAYER);
+
   // Spawn first coin
-  coinRngSeed = 54321 + gameVars.gameTimer; // Add some variation
+  gameVars.coinRngSeed = 54321 + gameVars.gameTimer; // Add some variation
   spawnRandomCoin();
 
   // Reset spikes
   for (let i = 0; i < SPIKE_COUNT; i++) {
-    spikes[i].y = -20;
-    spikes[i].active = false;
+    const spike = getSpike(i);
+    spike.y = -20;
+    spike.active = false;
   }
 }
 
@@ -242,25 +248,19 @@ export function update(): void {
     const collisionW = COLLISION_WIDTH;
     const collisionH = PLAYER_HEIGHT;
 
-    for (let i = 0; i < platforms.length; i++) {
-      const plat = platforms[i];
-    
-      // Check if collision box is overlapping platform horizontally
-      const overlapX = collisionX + collisionW > plat.x && collisionX < plat.x + plat.w;
-    
-      // Check if player's feet are at or below platform top
-      if (overlapX) {
-        const prevY = py - <i32>gameVars.velocityY;
-        const prevBottom = prevY + collisionH;
-        const currBottom = py + collisionH;
-      
-        // Check if player crossed platform surface this frame
-        if (prevBottom <= plat.y && currBottom >= plat.y) {
-          gameVars.playerY = <f32>(plat.y - collisionH);
-          gameVars.velocityY = 0;
-          gameVars.grounded = 1;
-          break;
-        }
+    const prevY = py - <i32>gameVars.velocityY;
+    const prevBottom = prevY + collisionH;
+    const currBottom = py + collisionH;
+
+    // Check every tile top the player's feet crossed this frame
+    const firstRow = (prevBottom + TILE_SIZE - 1) / TILE_SIZE;
+    for (let row = max(firstRow, 0); row * TILE_SIZE <= currBottom; row++) {
+      const surfaceY = row * TILE_SIZE;
+      if (getTileFlagsInRect(LEVEL_LAYER, collisionX, surfaceY, collisionW, 1) & TileFlag.SOLID) {
+        gameVars.playerY = <f32>(surfaceY - collisionH);
+        gameVars.velocityY = 0;
+        gameVars.grounded = 1;
+        break;
       }
     }
   }
@@ -279,7 +279,7 @@ export function update(): void {
 
   // Update spikes
   for (let i = 0; i < SPIKE_COUNT; i++) {
-    const spike = spikes[i];
+    const spike = getSpike(i);
     
     // Increase difficulty over time: spikes spawn faster and move faster
     const difficultyMultiplier: f32 = 1 + (<f32>gameVars.gameTimer) / (DIFFICULTY_SCALE * 60);
@@ -366,16 +366,19 @@ export function draw(): void {
 
   const state = gameVars.state;
 
-  // Draw platforms
-  for (let i = 0; i < platforms.length; i++) {
-    const plat = platforms[i];
-    const color = i == 0 ? c(0x8B4513) : c(0x228B22); // Brown for ground, green for platforms
-    fillRect(plat.x, plat.y, plat.w, plat.h, color);
+  // Shake the world (not the HUD) for a moment after a hit
+  resetCamera();
+  const hitAge = INVULN_TIME - gameVars.invulnTimer;
+  if (gameVars.invulnTimer > 0 && hitAge < SHAKE_TIME) {
+    shakeCamera((SHAKE_TIME - hitAge) / 4 + 1, gameVars.gameTimer as u32);
   }
 
+  // Draw ground and platforms
+  drawTilemap(LEVEL_LAYER, 0, 0);
+
   // Draw spikes (red triangular hazards)
   for (let i = 0; i < SPIKE_COUNT; i++) {
-    const spike = spikes[i];
+    const spike = getSpike(i);
     if (spike.active) {
       const sx = <i32>spike.x;
       const sy = <i32>spike.y;
@@ -403,18 +406,18 @@ export function draw(): void {
     drawSprite(spriteId, px, py, gameVars.facingRight == 0);
   }
 
-  // Draw title and lives
-  drawString(10, 10, "DINO WORLD", c(0xFFFFFF));
+  // Draw title and lives (HUD in screen coordinates)
+  drawStringScreen(10, 10, "DINO WORLD", c(0xFFFFFF));
   
   // Draw lives as hearts
   for (let i: i32 = 0; i < gameVars.lives && i < STARTING_LIVES; i++) {
-    fillCircle(10 + i * 15, 30, 4, c(0xFF0000));
+    fillCircleScreen(10 + i * 15, 30, 4, c(0xFF0000));
   }
 
   // Draw coins collected in top-right
-  drawSprite(14, WIDTH - 70, 2);
+  drawSpriteScreen(14, WIDTH - 70, 2);
   // Number of coins
-  drawNumber(WIDTH - 40, 8, gameVars.coinsCollected, c(0xFFFFFF));
+  drawNumberScreen(WIDTH - 40, 8, gameVars.coinsCollected, c(0xFFFFFF));
 
   // Draw messages
   if (state == GameState.START_SCREEN) {
@@ -11,6 +11,7 @@ import {
   clearFramebuffer,
   drawNumber,
   drawSprite,
+  drawSpriteEx,
   log,
   pset,
 } from "../sdk";
@@ -73,5 +74,6 @@ export function draw(): void {
   const i = <u32>Math.floor(gameVars.animFrame * speed / 2) % 9;
   const o = <u32>Math.floor(gameVars.animFrame * speed) % 350;
   drawSprite(1 + i, -30 + o, 10, true, true); // draw sprite at (10,10)
+  drawSpriteEx(1, 240, 160, 2, 2, <f32>gameVars.animFrame * 0.05, 16, 16); // spin around its center at 2x
   // drawNumber(1, 30, i, c(0x0000ff)); // draw animation frame count
 }
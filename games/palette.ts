@@ -0,0 +1,120 @@
+// Palette Demo - Indexed color mode
+// Rings drawn with 64 palette indexes; rotating those entries makes the colors
+// flow outwards without recomputing a single pixel color.
+// A flashes the screen white, B fades to black and back.
+
+import {
+  Button,
+  HEIGHT,
+  RAM_START,
+  VideoMode,
+  WIDTH,
+  blendPalette,
+  buttonPressed,
+  drawString,
+  loadPalette,
+  log,
+  pset,
+  rotatePalette,
+  savePalette,
+  setPaletteColor,
+} from "../sdk";
+
+// Select the 8-bit framebuffer, read by the host before init()
+export const videoMode = VideoMode.INDEXED;
+
+// === Palette Layout ===
+const COLOR_BLACK: u32 = 0;
+const COLOR_WHITE: u32 = 1;
+const RAMP_START: i32 = 16;
+const RAMP_LENGTH: i32 = 64;
+
+const CYCLE_TICKS: u32 = 2;      // Ticks per palette step
+const FLASH_TICKS: i32 = 12;
+const FADE_TICKS: i32 = 60;
+
+// === RAM Layout ===
+
+@unmanaged
+class GameVars {
+  tick: u32 = 0;         // 0
+  flash: i32 = 0;        // 4: ticks of flash left
+  fade: i32 = 0;         // 8: 0 = full color, FADE_TICKS = black
+  fadeStep: i32 = 0;     // 12: -1, 0 or 1
+  blended: u32 = 0;      // 16: 1 while the palette shows a flash or fade
+}
+
+const gameVars = changetype<GameVars>(RAM_START);
+
+// Colors under a flash or fade, put back before update() cycles them again
+const UNBLENDED_PALETTE: usize = RAM_START + 20;   // PALETTE_SIZE bytes
+
+// Smooth 0-255-0 wave over RAMP_LENGTH steps
+function wave(i: i32): u32 {
+  const x = (i % RAMP_LENGTH) * (512 / RAMP_LENGTH);
+  return (255 - min(255, abs(x - 256))) as u32;
+}
+
+export function init(): void {
+  gameVars.tick = 0;
+  gameVars.flash = 0;
+  gameVars.fade = 0;
+  gameVars.fadeStep = 0;
+  gameVars.blended = 0;
+
+  setPaletteColor(COLOR_BLACK, 0x000000);
+  setPaletteColor(COLOR_WHITE, 0xffffff);
+  for (let i: i32 = 0; i < RAMP_LENGTH; i++) {
+    const r = wave(i);
+    const g = wave(i + RAMP_LENGTH / 3);
+    const b = wave(i + (RAMP_LENGTH * 2) / 3);
+    setPaletteColor(RAMP_START + i, (r << 16) | (g << 8) | b);
+  }
+
+  log("Palette demo started");
+}
+
+export function update(): void {
+  gameVars.tick++;
+
+  if (gameVars.blended) {
+    loadPalette(UNBLENDED_PALETTE);
+    gameVars.blended = 0;
+  }
+  if (gameVars.tick % CYCLE_TICKS == 0) {
+    rotatePalette(RAMP_START, RAMP_LENGTH);
+  }
+
+  if (buttonPressed(Button.A)) gameVars.flash = FLASH_TICKS;
+  if (buttonPressed(Button.B)) gameVars.fadeStep = gameVars.fade > 0 ? -1 : 1;
+
+  if (gameVars.flash > 0) gameVars.flash--;
+  gameVars.fade = min(FADE_TICKS, max(0, gameVars.fade + gameVars.fadeStep));
+}
+
+export function draw(): void {
+  if ((gameVars.flash > 0 || gameVars.fade > 0) && !gameVars.blended) {
+    savePalette(UNBLENDED_PALETTE);
+    gameVars.blended = 1;
+  }
+  if (gameVars.flash > 0) {
+    blendPalette(UNBLENDED_PALETTE, 0xffffff, (gameVars.flash as f32) / (FLASH_TICKS as f32));
+  } else if (gameVars.fade > 0) {
+    blendPalette(UNBLENDED_PALETTE, 0x000000, (gameVars.fade as f32) / (FADE_TICKS as f32));
+  }
+
+  // Every pixel is redrawn, no clear needed
+  const cx = WIDTH / 2;
+  const cy = HEIGHT / 2;
+  for (let y: i32 = 0; y < HEIGHT; y++) {
+    for (let x: i32 = 0; x < WIDTH; x++) {
+      const dx = (x - cx) as f32;
+      const dy = (y - cy) as f32;
+      const ring = (Mathf.sqrt(dx * dx + dy * dy) / 2.0) as i32;
+      pset(x, y, (RAMP_START + ring % RAMP_LENGTH) as u32);
+    }
+  }
+
+  drawString(8, 8, "PALETTE DEMO", COLOR_WHITE);
+  drawString(8, HEIGHT - 18, "A: FLASH   B: FADE", COLOR_WHITE);
+}
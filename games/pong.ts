@@ -197,13 +197,13 @@ export function update(): void {
   const state = gameVars.state;
 
   // Start game from start screen
-  if (state == GameState.START_SCREEN && buttonPressed(Button.START)) {
+  if (state == GameState.START_SCREEN && (buttonPressed(Button.START, 0) || buttonPressed(Button.START, 1))) {
     gameVars.state = GameState.PLAYING as u8;
     return;
   }
 
   // Restart on START button
-  if (state == GameState.GAME_OVER && buttonPressed(Button.START)) {
+  if (state == GameState.GAME_OVER && (buttonPressed(Button.START, 0) || buttonPressed(Button.START, 1))) {
     init();
     return;
   }
@@ -225,26 +225,26 @@ export function update(): void {
     }
   }
 
-  // Player 1 (top paddle) - A & B buttons
+  // Player 1 (top paddle) - Left & Right on controller 1
   let p1X = gameVars.p1X;
-  if (buttonDown(Button.A)) {
+  if (buttonDown(Button.LEFT, 0)) {
     p1X -= PADDLE_SPEED;
     if (p1X < 0.0) p1X = 0.0;
   }
-  if (buttonDown(Button.B)) {
+  if (buttonDown(Button.RIGHT, 0)) {
     p1X += PADDLE_SPEED;
     if (p1X > ((WIDTH - PADDLE_WIDTH) as f32))
       p1X = (WIDTH - PADDLE_WIDTH) as f32;
   }
   gameVars.p1X = p1X;
 
-  // Player 2 (bottom paddle) - Left & Right arrows
+  // Player 2 (bottom paddle) - Left & Right on controller 2
   let p2X = gameVars.p2X;
-  if (buttonDown(Button.LEFT)) {
+  if (buttonDown(Button.LEFT, 1)) {
     p2X -= PADDLE_SPEED;
     if (p2X < 0.0) p2X = 0.0;
   }
-  if (buttonDown(Button.RIGHT)) {
+  if (buttonDown(Button.RIGHT, 1)) {
     p2X += PADDLE_SPEED;
     if (p2X > ((WIDTH - PADDLE_WIDTH) as f32))
       p2X = (WIDTH - PADDLE_WIDTH) as f32;
@@ -6,17 +6,26 @@ import {
   buttonPressed,
   c,
   clearFramebuffer,
+  commitSave,
   drawNumber,
   drawStartMessageBox,
   drawString,
   fillRect,
+  getSaveI32,
   getU8,
   HEIGHT,
   log,
   pset,
   RAM_START,
   random,
+  setChannelEnvelope,
+  setChannelFrequency,
+  setChannelVolume,
+  setChannelWaveform,
+  setSaveI32,
   setU8,
+  triggerNote,
+  Waveform,
   WIDTH,
 } from "../sdk";
 
@@ -29,6 +38,13 @@ const MAX_SNAKE_LENGTH: i32 = GRID_WIDTH * GRID_HEIGHT; // Maximum possible leng
 const INITIAL_SPEED: u8 = 15; // Frames between moves (lower = faster)
 const SPEED_INCREMENT: u8 = 1; // Speed increase per food eaten
 
+// Save RAM layout
+const SAVE_HIGH_SCORE: usize = 0; // i32
+
+// Synthesizer channels
+const CHANNEL_EAT: i32 = 0;
+const CHANNEL_CRASH: i32 = 3;
+
 // Directions
 enum Direction {
   UP = 0,
@@ -148,6 +164,8 @@ function moveSnake(): void {
   if (checkCollision(headX, headY)) {
     gameVars.state = GameState.GAME_OVER as u8;
     log("Game Over!");
+    triggerNote(CHANNEL_CRASH);
+    saveHighScore();
     return;
   }
 
@@ -160,6 +178,10 @@ function moveSnake(): void {
     grow = true;
     gameVars.score++;
 
+    // Blip rises in pitch as the snake grows
+    setChannelFrequency(CHANNEL_EAT, 440 + min<i32>(gameVars.score as i32, 40) * 20);
+    triggerNote(CHANNEL_EAT);
+
     // Increase speed
     if (gameVars.speed > 2) {
       gameVars.speed -= SPEED_INCREMENT;
@@ -190,6 +212,15 @@ function moveSnake(): void {
 }
 
 // === Lifecycle ===
+// Keep the best score in save RAM so it survives reloads
+function saveHighScore(): void {
+  const score = gameVars.score as i32;
+  if (score > getSaveI32(SAVE_HIGH_SCORE)) {
+    setSaveI32(SAVE_HIGH_SCORE, score);
+    commitSave();
+  }
+}
+
 export function init(): void {
   // Initialize snake (start in center, length 3, moving right)
   const startX = (GRID_WIDTH / 2) as u8;
@@ -210,6 +241,15 @@ export function init(): void {
   // Initialize RNG
   gameVars.rngSeed = 12345;
 
+  // Sound effects are synthesized, no audio files needed
+  setChannelWaveform(CHANNEL_EAT, Waveform.SQUARE, 0.25);
+  setChannelEnvelope(CHANNEL_EAT, 0, 6);
+  setChannelVolume(CHANNEL_EAT, 0.5);
+  setChannelWaveform(CHANNEL_CRASH, Waveform.NOISE);
+  setChannelEnvelope(CHANNEL_CRASH, 0, 40);
+  setChannelVolume(CHANNEL_CRASH, 0.8);
+  setChannelFrequency(CHANNEL_CRASH, 4000);
+
   // Spawn first food
   spawnFood();
 }
@@ -300,6 +340,8 @@ export function draw(): void {
   // Draw score
   drawString(4, 4, "SCORE:", c(0xaaaaaa));
   drawNumber(50, 4, gameVars.score as i32, c(0xffffff));
+  drawString(4, 16, "HI:", c(0xaaaaaa));
+  drawNumber(50, 16, getSaveI32(SAVE_HIGH_SCORE), c(0xffffff));
 
   // Game messages
   if (state == GameState.START_SCREEN) {
@@ -7,15 +7,26 @@ import {
   buttonPressed,
   c,
   clearFramebuffer,
+  crossfadeMusic,
   drawNumber,
   drawString,
   drawStartMessageBox,
+  fadeOutMusic,
   fillRect,
+  getSaveI32,
   getU8,
   HEIGHT,
   log,
+  markSaveDirty,
+  playMusic,
   playSfx,
+  queueMusic,
   RAM_START,
+  random,
+  setSaveI32,
+  setSfxPan,
+  setSfxPitch,
+  stopSfx,
   setU8,
   WIDTH,
   setU16,
@@ -55,6 +66,15 @@ const SHIELD_BLOCKS: i32 = 8; // 8 destructible blocks per shield
 const STARTING_LIVES: i32 = 3;
 const ALIEN_SHOOT_CHANCE: i32 = 180; // Lower = more frequent (1 in N per frame)
 
+// Music (assets/music/)
+const MUSIC_GAMEPLAY: u32 = 0;      // 0-background_music_loop_120bpm.wav
+const MUSIC_LEVEL_CLEAR: u32 = 2;   // 2-invaders_clear.song.json, plays once
+const MUSIC_VOLUME: f32 = 0.4;
+
+// Sound effects (assets/sfx/)
+const SFX_TAP: u32 = 0;             // 0-tap.wav, shots and aliens hit
+const SFX_EXPLOSION: u32 = 1;       // 1-explosion.wav, the player hit
+
 // Game states
 enum GameState {
   START_SCREEN = 0,
@@ -79,6 +99,8 @@ class GameVars {
   shootCooldown: i32 = 0;     // 40
   gameTimer: i32 = 0;         // 44
   level: i32 = 0;             // 48
+  rngSeed: i32 = 0;           // 52
+  marchVoice: u32 = 0;        // 56 (looping hum while the aliens march, 0 = silent)
 }
 
 const gameVars = changetype<GameVars>(RAM_START);
@@ -95,16 +117,41 @@ const ALIEN_BULLET_DATA = RAM_START + 132;
 // Shield health: 4 shields × 8 blocks each = 32 bytes (0-2 health per block)
 const SHIELD_DATA = RAM_START + 152;
 
-// RNG seed
-let rngSeed: i32 = 12345;
+// === Save RAM Layout ===
+const SAVE_HIGH_SCORE: usize = 0; // i32
+
+// Keep the best score in save RAM, the host persists it after this tick
+function saveHighScore(): void {
+  if (gameVars.score > getSaveI32(SAVE_HIGH_SCORE)) {
+    setSaveI32(SAVE_HIGH_SCORE, gameVars.score);
+    markSaveDirty();
+  }
+}
 
-function random(): i32 {
-  rngSeed = (rngSeed * 1103515245 + 12345) & 0x7fffffff;
-  return rngSeed;
+// === March Hum ===
+// Looping SFX that speeds up as aliens die and follows the fleet left and right
+function startMarch(): void {
+  stopMarch();
+  gameVars.marchVoice = playSfx(6, 0.25, true); // Procedural, assets/sfx/6-march_hum.sfx.json
+}
+
+function stopMarch(): void {
+  if (gameVars.marchVoice != 0) {
+    stopSfx(gameVars.marchVoice);
+    gameVars.marchVoice = 0;
+  }
+}
+
+function updateMarch(): void {
+  if (gameVars.marchVoice == 0) return;
+  const total = (ALIEN_COLS * ALIEN_ROWS) as f32;
+  setSfxPitch(gameVars.marchVoice, 1.0 + (total - (gameVars.aliensRemaining as f32)) / total);
+  const fleetCenter = gameVars.alienGridX + ((ALIEN_COLS * ALIEN_SPACING_X) as f32) / 2.0;
+  setSfxPan(gameVars.marchVoice, (fleetCenter - (WIDTH as f32) / 2.0) / ((WIDTH as f32) / 2.0));
 }
 
 function randomInt(max: i32): i32 {
-  return (random() % max);
+  return random(RAM_START + 52) % max; // rngSeed offset
 }
 
 // === Alien Helpers ===
@@ -279,6 +326,7 @@ export function init(): void {
   gameVars.shootCooldown = 0;
   gameVars.gameTimer = 0;
   gameVars.level = 1;
+  gameVars.marchVoice = 0;
   
   initAliens();
   initShields();
@@ -291,7 +339,7 @@ export function init(): void {
     setAlienBullet(i, 0, 0, 0);
   }
   
-  rngSeed = 12345;
+  gameVars.rngSeed = 12345;
   log("Space Invaders Started!");
 }
 
@@ -300,6 +348,8 @@ export function update(): void {
   
   if (state == GameState.START_SCREEN && buttonPressed(Button.START)) {
     gameVars.state = GameState.PLAYING as u8;
+    startMarch();
+    playMusic(MUSIC_GAMEPLAY, MUSIC_VOLUME);
     return;
   }
   
@@ -313,6 +363,7 @@ export function update(): void {
     initAliens();
     initShields();
     gameVars.state = GameState.PLAYING as u8;
+    startMarch();
     return;
   }
   
@@ -354,7 +405,7 @@ export function update(): void {
         const bulletY = PLAYER_Y - BULLET_HEIGHT;
         setPlayerBullet(i, bulletX, bulletY, 1);
         gameVars.shootCooldown = 20;
-        playSfx(0, 0.3);
+        playSfx(SFX_TAP, 0.3);
         break;
       }
     }
@@ -391,11 +442,15 @@ export function update(): void {
                 else if (row <= 2) gameVars.score += 20;
                 else gameVars.score += 10;
                 
-                playSfx(0, 0.5);
+                playSfx(SFX_TAP, 0.5);
                 hitAlien = true;
                 
                 if (gameVars.aliensRemaining == 0) {
                   gameVars.state = GameState.LEVEL_COMPLETE as u8;
+                  stopMarch();
+                  // Fanfare, then back to the gameplay loop without a gap
+                  crossfadeMusic(MUSIC_LEVEL_CLEAR, 30, 0.6);
+                  queueMusic(MUSIC_GAMEPLAY, MUSIC_VOLUME);
                   log("Level Complete!");
                 }
               }
@@ -442,13 +497,18 @@ export function update(): void {
     gameVars.alienDirection = 1;
   }
   
+  updateMarch();
+  
   if (shouldDrop) {
     gameVars.alienGridY += (ALIEN_DROP_DISTANCE as f32);
     
     // Check if aliens reached bottom
     if (gameVars.alienGridY > ((SHIELD_Y - 20) as f32)) {
       gameVars.state = GameState.GAME_OVER as u8;
+      stopMarch();
+      fadeOutMusic(90);
       log("Aliens reached Earth!");
+      saveHighScore();
     }
   }
   
@@ -494,11 +554,14 @@ export function update(): void {
             by >= PLAYER_Y && by < PLAYER_Y + PLAYER_HEIGHT) {
           gameVars.lives--;
           setAlienBullet(i, 0, 0, 0);
-          playSfx(1, 0.3);
+          playSfx(SFX_EXPLOSION, 0.3);
           
           if (gameVars.lives <= 0) {
             gameVars.state = GameState.GAME_OVER as u8;
+            stopMarch();
+            fadeOutMusic(90);
             log("Game Over!");
+            saveHighScore();
           }
         }
         
@@ -583,6 +646,8 @@ export function draw(): void {
   // Draw UI
   drawString(4, 4, "SCORE:", c(0xffffff));
   drawNumber(50, 4, gameVars.score, c(0xffffff));
+  drawString(4, 16, "HI:", c(0xffffff));
+  drawNumber(50, 16, getSaveI32(SAVE_HIGH_SCORE), c(0xffffff));
   
   drawString(WIDTH - 85, 4, "LIVES:", c(0xffffff));
   for (let i: i32 = 0; i < gameVars.lives; i++) {
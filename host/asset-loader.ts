@@ -112,4 +112,30 @@ export class AssetLoader {
     }
     return await response.arrayBuffer();
   }
+
+  /**
+   * Fetch and parse a JSON file
+   * @param url - Resource URL
+   * @returns Promise that resolves to the parsed value
+   */
+  static async fetchJson(url) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  /**
+   * Compute a SHA-256 hash of binary data
+   * Used to identify a specific cartridge build
+   * @param buffer - ArrayBuffer or typed array to hash
+   * @returns Promise that resolves to a lowercase hex string
+   */
+  static async hashBinary(buffer) {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
 }
@@ -0,0 +1,113 @@
+// Audio Log - Records the audio calls of a cartridge with their tick numbers
+//
+// Audio is the one cartridge output that leaves no trace in memory or on
+// screen. While the log is enabled, every audio import is recorded with the
+// tick it was made in (0 = init(), N = the Nth update()) as one line of text,
+// so two runs can be diffed:
+//
+//   42 playSfx(3, 1, 0.3, false)
+//
+// The arguments are the ones passed to the audio hooks (see createEnv()), so
+// playSfx starts with the voice handle. The worker shows entries in the
+// console panel and exports the log; the headless runner
+// (scripts/run-cartridge.js) records calls instead of playing them, so goldens
+// can check which sounds a game played and when.
+
+/** Audio hooks every host provides, see createEnv() */
+export const AUDIO_METHODS = [
+  'playSfx', 'stopSfx', 'setSfxPitch', 'setSfxPan', 'setSfxVolume',
+  'playMusic', 'stopMusic', 'fadeOutMusic', 'crossfadeMusic', 'queueMusic',
+  'pauseMusic', 'resumeMusic', 'setMusicOrder'
+];
+
+/**
+ * Format a log entry as one line
+ * @param entry - {tick, method, args}
+ * @returns {string} e.g. "42 playSfx(3, 1, 0.3, false)"
+ */
+export function formatAudioEntry({ tick, method, args }) {
+  return `${tick} ${method}(${args.map(formatArg).join(', ')})`;
+}
+
+// f32 arguments arrive widened (0.30000001192092896), print them as written
+function formatArg(value) {
+  return typeof value === 'number' ? String(Number(value.toPrecision(6))) : String(value);
+}
+
+class AudioLog {
+  #enabled = false;
+  #entries = [];               // {tick, method, args}
+  #listeners = [];
+
+  /**
+   * Check if calls are recorded
+   * @returns {boolean}
+   */
+  isEnabled() {
+    return this.#enabled;
+  }
+
+  /**
+   * Start or stop recording, starting clears the log
+   * @param enabled - true to record
+   */
+  setEnabled(enabled) {
+    if (enabled && !this.#enabled) this.clear();
+    this.#enabled = enabled;
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear() {
+    this.#entries = [];
+  }
+
+  /**
+   * Get the recorded entries, oldest first
+   * @returns {{tick: number, method: string, args: any[]}[]}
+   */
+  getEntries() {
+    return this.#entries;
+  }
+
+  /**
+   * Get the whole log as text, one entry per line
+   * @returns {string}
+   */
+  export() {
+    return this.#entries.map(entry => formatAudioEntry(entry) + '\n').join('');
+  }
+
+  /**
+   * Register a callback for every recorded entry
+   * @param listener - Called with the new entry
+   */
+  onRecord(listener) {
+    this.#listeners.push(listener);
+  }
+
+  /**
+   * Wrap audio hooks so their calls are recorded while the log is enabled
+   * @param audio - Hooks to forward every call to, null to only record
+   * @param getTick - Returns the tick a call is made in
+   * @returns Audio hooks for createEnv()
+   */
+  wrap(audio, getTick) {
+    const hooks = {};
+    for (const method of AUDIO_METHODS) {
+      hooks[method] = (...args) => {
+        if (this.#enabled) this.#record({ tick: getTick(), method, args });
+        audio?.[method](...args);
+      };
+    }
+    return hooks;
+  }
+
+  #record(entry) {
+    this.#entries.push(entry);
+    for (const listener of this.#listeners) listener(entry);
+  }
+}
+
+export const audioLog = new AudioLog();
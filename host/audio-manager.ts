@@ -9,19 +9,184 @@
 // Games should call playMusic() after detecting user input, not in init().
 
 import { AssetLoader } from './asset-loader.js';
+import { renderSfx } from './sfx-generator.js';
+import { parseSong, renderSong, getSongTiming } from './tracker.js';
+import { AUDIO_CHANNEL_SIZE, AUDIO_CHANNEL_COUNT, AUDIO_GATE, AUDIO_TRIGGER } from '../memory-map.js';
+
+// Synthesizer waveform register values (see AUDIO_ADDR in memory-map.ts)
+const SYNTH_SQUARE = 0;
+const SYNTH_NOISE = 3;
+const SYNTH_OSCILLATOR_TYPES = ['square', 'triangle', 'sawtooth'];
+
+const SYNTH_CHANNEL_GAIN = 0.25;   // Headroom for all channels at full volume
+const SYNTH_SMOOTHING = 0.004;     // Time constant of gain changes (s), avoids clicks
+const SQUARE_HARMONICS = 64;       // Harmonics of the pulse wave used for non-50% duty
+
+const FRAME_DURATION = 1 / 60;     // Fade lengths are given in ticks
+
+/** Mixer buses: music and SFX (samples and synthesizer) both feed master */
+export const MIXER_BUSES = ['master', 'music', 'sfx'];
+
+const MIXER_STORAGE_KEY = 'tinyforge.mixer';
+const MIXER_SMOOTHING = 0.01;      // Time constant of bus gain changes (s)
+const DEFAULT_MIXER = {
+  master: { volume: 1, muted: false },
+  music: { volume: 0.5, muted: false },   // Music sits under the sound effects
+  sfx: { volume: 1, muted: false }
+};
+
+const POLYPHONY_STORAGE_KEY = 'tinyforge.sfxPolyphony';
+const DEFAULT_POLYPHONY = 16;
+const MIN_POLYPHONY = 1;
+const MAX_POLYPHONY = 32;
 
 class AudioManager {
   #audioContext = null;
   #sfxBuffers = new Map();
+  #voices = new Map();         // Voice handle -> {source, gain, panner}, oldest first
+  #polyphony = DEFAULT_POLYPHONY;
   #musicBuffers = new Map();
-  #currentMusic = null;
-  #musicGain = null;
+  #currentMusic = null;        // {id, volume, source, gain, startTime, startOffset, pausedAt}
+  #queuedMusic = null;         // Track starting when the current one ends
+  #fadingMusic = new Set();    // Tracks fading out after fadeOutMusic() or crossfadeMusic()
+  #songs = new Map();          // Music ID -> timing of tracker songs
+  #buses = new Map();          // Bus name -> GainNode
+  #mixer = structuredClone(DEFAULT_MIXER);
+  #mixerListeners = [];
+  #synthChannels = [];
+  #pulseWaves = new Map();     // Duty register value -> PeriodicWave
+  #noiseBuffer = null;
 
   constructor() {
     this.#audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    this.#musicGain = this.#audioContext.createGain();
-    this.#musicGain.connect(this.#audioContext.destination);
-    this.#musicGain.gain.value = 0.5; // Music at 50% volume
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(MIXER_STORAGE_KEY));
+      for (const bus of MIXER_BUSES) {
+        const { volume, muted } = stored?.[bus] ?? {};
+        if (volume >= 0 && volume <= 1) this.#mixer[bus].volume = volume;
+        if (typeof muted === 'boolean') this.#mixer[bus].muted = muted;
+      }
+    } catch {
+      // Keep the defaults
+    }
+    for (const bus of MIXER_BUSES) {
+      const gain = this.#audioContext.createGain();
+      gain.gain.value = this.#getBusGain(bus);
+      this.#buses.set(bus, gain);
+    }
+    this.#buses.get('master').connect(this.#audioContext.destination);
+    this.#buses.get('music').connect(this.#buses.get('master'));
+    this.#buses.get('sfx').connect(this.#buses.get('master'));
+
+    for (let i = 0; i < AUDIO_CHANNEL_COUNT; i++) {
+      const gain = this.#audioContext.createGain();
+      gain.gain.value = 0;
+      gain.connect(this.#buses.get('sfx'));
+      this.#synthChannels.push({ gain, source: null, waveform: -1, duty: -1, stage: 'idle', level: 0 });
+    }
+
+    const polyphony = parseInt(localStorage.getItem(POLYPHONY_STORAGE_KEY), 10);
+    if (polyphony >= MIN_POLYPHONY && polyphony <= MAX_POLYPHONY) {
+      this.#polyphony = polyphony;
+    }
+  }
+
+  /**
+   * Get the volume of a mixer bus
+   * @param bus - 'master', 'music' or 'sfx'
+   * @returns {number} Volume (0-1), regardless of mute
+   */
+  getBusVolume(bus) {
+    return this.#mixer[bus].volume;
+  }
+
+  /**
+   * Set the volume of a mixer bus and persist it
+   * @param bus - 'master', 'music' or 'sfx'
+   * @param volume - Volume (0-1)
+   */
+  setBusVolume(bus, volume) {
+    this.#mixer[bus].volume = Math.max(0, Math.min(1, volume));
+    this.#mixerChanged(bus);
+  }
+
+  /**
+   * Check if a mixer bus is muted
+   * @param bus - 'master', 'music' or 'sfx'
+   * @returns {boolean}
+   */
+  isBusMuted(bus) {
+    return this.#mixer[bus].muted;
+  }
+
+  /**
+   * Mute or unmute a mixer bus and persist it
+   * @param bus - 'master', 'music' or 'sfx'
+   * @param muted - true to silence the bus
+   */
+  setBusMuted(bus, muted) {
+    this.#mixer[bus].muted = muted;
+    this.#mixerChanged(bus);
+  }
+
+  /**
+   * Register a callback for mixer changes
+   * @param listener - Called after any volume or mute change
+   */
+  onMixerChange(listener) {
+    this.#mixerListeners.push(listener);
+  }
+
+  #getBusGain(bus) {
+    return this.#mixer[bus].muted ? 0 : this.#mixer[bus].volume;
+  }
+
+  #mixerChanged(bus) {
+    this.#buses.get(bus).gain.setTargetAtTime(this.#getBusGain(bus), this.#audioContext.currentTime, MIXER_SMOOTHING);
+    localStorage.setItem(MIXER_STORAGE_KEY, JSON.stringify(this.#mixer));
+    for (const listener of this.#mixerListeners) listener();
+  }
+
+  /**
+   * Suspend or resume all audio output (game paused, tab hidden)
+   * Sounds and music hold their position while suspended
+   * @param suspended - true to suspend
+   */
+  setSuspended(suspended) {
+    const request = suspended ? this.#audioContext.suspend() : this.#audioContext.resume();
+    request.catch(() => {
+      // Not allowed before the first user interaction, the context stays suspended
+    });
+  }
+
+  /**
+   * Get the number of sound effects that can play at once
+   * @returns {number}
+   */
+  getPolyphony() {
+    return this.#polyphony;
+  }
+
+  /**
+   * Set the number of sound effects that can play at once and persist it
+   * Voices above the new limit are stopped, oldest first
+   * @param voices - Voice count (1-32)
+   */
+  setPolyphony(voices) {
+    this.#polyphony = Math.max(MIN_POLYPHONY, Math.min(MAX_POLYPHONY, Math.round(voices)));
+    localStorage.setItem(POLYPHONY_STORAGE_KEY, String(this.#polyphony));
+    while (this.#voices.size > this.#polyphony) {
+      this.stopSfx(this.#voices.keys().next().value);
+    }
+  }
+
+  /**
+   * Get the number of sound effects currently playing
+   * @returns {number}
+   */
+  getActiveVoiceCount() {
+    return this.#voices.size;
   }
 
   /**
@@ -49,15 +214,35 @@ class AudioManager {
     return this.#musicBuffers.size;
   }
 
+  /**
+   * Get the timing of the loaded music, for the music sequencer
+   * @returns Music ID -> {duration} for audio files, plus
+   *   {rowDuration, order, patternLengths, loop} for tracker songs
+   */
+  getMusicTimings() {
+    const timings = {};
+    for (const [id, buffer] of this.#musicBuffers) {
+      timings[id] = { duration: buffer.duration };
+      const song = this.#songs.get(id);
+      if (song) {
+        const { rowDuration, order, patternLengths, loop } = song;
+        Object.assign(timings[id], { rowDuration, order, patternLengths, loop });
+      }
+    }
+    return timings;
+  }
+
   /**
    * Load all audio files from assets/sfx/ and assets/music/ folders
+   * Procedural sound descriptors (.sfx.json) in assets/sfx/ and tracker
+   * songs (.song.json) in assets/music/ are rendered here
    */
   async loadAudio() {
     try {
       // Load SFX files
       const sfxAssets = await AssetLoader.scanDirectory(
         '../assets/sfx/',
-        /\.(wav|mp3|ogg)$/i
+        /\.(wav|mp3|ogg)$|\.sfx\.json$/i
       );
       
       for (const asset of sfxAssets) {
@@ -67,7 +252,7 @@ class AudioManager {
       // Load music files
       const musicAssets = await AssetLoader.scanDirectory(
         '../assets/music/',
-        /\.(wav|mp3|ogg)$/i
+        /\.(wav|mp3|ogg)$|\.song\.json$/i
       );
       
       for (const asset of musicAssets) {
@@ -85,6 +270,15 @@ class AudioManager {
     try {
       AssetLoader.checkDuplicate(bufferMap, id, url, type);
       
+      if (/\.sfx\.json$/i.test(url)) {
+        bufferMap.set(id, await this.#renderSfxFile(url));
+        return;
+      }
+      if (/\.song\.json$/i.test(url)) {
+        bufferMap.set(id, await this.#renderSongFile(id, url));
+        return;
+      }
+
       const arrayBuffer = await AssetLoader.fetchBinary(url);
       const audioBuffer = await this.#audioContext.decodeAudioData(arrayBuffer);
       bufferMap.set(id, audioBuffer);
@@ -94,60 +288,511 @@ class AudioManager {
   }
 
   /**
-   * Play a sound effect by ID
+   * Render a procedural sound descriptor into an AudioBuffer
    */
-  playSfx(id, volume = 1.0) {
+  async #renderSfxFile(url) {
+    const sampleRate = this.#audioContext.sampleRate;
+    const samples = renderSfx(await AssetLoader.fetchJson(url), sampleRate);
+    const audioBuffer = this.#audioContext.createBuffer(1, samples.length, sampleRate);
+    audioBuffer.copyToChannel(samples, 0);
+    return audioBuffer;
+  }
+
+  /**
+   * Render a tracker song into an AudioBuffer and keep its timing
+   */
+  async #renderSongFile(id, url) {
+    const song = parseSong(await AssetLoader.fetchJson(url));
+    const sampleRate = this.#audioContext.sampleRate;
+    const { samples, orderTimes } = renderSong(song, sampleRate);
+    const audioBuffer = this.#audioContext.createBuffer(1, samples.length, sampleRate);
+    audioBuffer.copyToChannel(samples, 0);
+    this.#songs.set(id, { ...getSongTiming(song), orderTimes });
+    return audioBuffer;
+  }
+
+  /**
+   * Play a sound effect by ID on a new voice
+   * When all voices are busy, the oldest one is stopped
+   * @param voice - Handle the cartridge uses to address this voice
+   * @param id - SFX ID
+   * @param volume - Volume (0-1)
+   * @param loop - Repeat until stopSfx()
+   */
+  playSfx(voice, id, volume = 1.0, loop = false) {
     const buffer = this.#sfxBuffers.get(id);
     if (!buffer) {
       console.warn(`SFX ${id} not loaded`);
       return;
     }
 
+    while (this.#voices.size >= this.#polyphony) {
+      this.stopSfx(this.#voices.keys().next().value);
+    }
+
     const source = this.#audioContext.createBufferSource();
     const gainNode = this.#audioContext.createGain();
+    const panner = this.#audioContext.createStereoPanner();
     
     source.buffer = buffer;
+    source.loop = loop;
     gainNode.gain.value = Math.max(0, Math.min(1, volume));
     
     source.connect(gainNode);
-    gainNode.connect(this.#audioContext.destination);
+    gainNode.connect(panner);
+    panner.connect(this.#buses.get('sfx'));
     source.start(0);
+
+    const entry = { source, gain: gainNode, panner };
+    source.addEventListener('ended', () => {
+      if (this.#voices.get(voice) === entry) this.#voices.delete(voice);
+      panner.disconnect();
+    });
+    this.#voices.set(voice, entry);
+  }
+
+  /**
+   * Stop a sound effect, unknown or finished voices are ignored
+   * @param voice - Handle passed to playSfx()
+   */
+  stopSfx(voice) {
+    const entry = this.#voices.get(voice);
+    if (!entry) return;
+    this.#voices.delete(voice);
+    entry.source.stop();
+  }
+
+  /**
+   * Stop all sound effects (game loaded or restarted)
+   */
+  stopAllSfx() {
+    for (const voice of [...this.#voices.keys()]) {
+      this.stopSfx(voice);
+    }
+  }
+
+  /**
+   * Change the playback rate of a sound effect
+   * @param voice - Handle passed to playSfx()
+   * @param pitch - Rate multiplier (1 = original)
+   */
+  setSfxPitch(voice, pitch) {
+    const entry = this.#voices.get(voice);
+    if (!entry || !(pitch > 0)) return;
+    entry.source.playbackRate.setValueAtTime(Math.min(pitch, 16), this.#audioContext.currentTime);
+  }
+
+  /**
+   * Move a sound effect in the stereo field
+   * @param voice - Handle passed to playSfx()
+   * @param pan - -1 (left) to 1 (right)
+   */
+  setSfxPan(voice, pan) {
+    const entry = this.#voices.get(voice);
+    if (!entry || !isFinite(pan)) return;
+    entry.panner.pan.setValueAtTime(Math.max(-1, Math.min(1, pan)), this.#audioContext.currentTime);
+  }
+
+  /**
+   * Change the volume of a sound effect
+   * @param voice - Handle passed to playSfx()
+   * @param volume - Volume (0-1)
+   */
+  setSfxVolume(voice, volume) {
+    const entry = this.#voices.get(voice);
+    if (!entry || !isFinite(volume)) return;
+    entry.gain.gain.setValueAtTime(Math.max(0, Math.min(1, volume)), this.#audioContext.currentTime);
   }
 
   /**
    * Play background music by ID (loops continuously)
+   * Tracker songs loop back to their loop position, or play once if it is -1
    */
   playMusic(id, volume = 1.0) {
     this.stopMusic();
-    
-    const buffer = this.#musicBuffers.get(id);
-    if (!buffer) {
-      console.warn(`Music ${id} not loaded`);
+    this.#currentMusic = this.#createMusic(id, volume);
+    if (this.#currentMusic) {
+      this.#startMusicSource(this.#currentMusic, this.#audioContext.currentTime, 0);
+    }
+  }
+
+  /**
+   * Stop currently playing music, including fades and queued music
+   */
+  stopMusic() {
+    for (const music of [this.#currentMusic, this.#queuedMusic, ...this.#fadingMusic]) {
+      music?.source?.stop();
+    }
+    this.#currentMusic = null;
+    this.#queuedMusic = null;
+    this.#fadingMusic.clear();
+  }
+
+  /**
+   * Fade the current music out, then stop it
+   * @param frames - Fade length in ticks
+   */
+  fadeOutMusic(frames) {
+    this.#promoteQueuedMusic();
+    const music = this.#currentMusic;
+    if (!music) return;
+    this.#cancelQueuedMusic();
+    this.#currentMusic = null;
+    this.#fadeOut(music, frames * FRAME_DURATION);
+  }
+
+  /**
+   * Fade from the current music to another track
+   * @param id - Music ID
+   * @param frames - Fade length in ticks
+   * @param volume - Volume of the new track (0-1)
+   */
+  crossfadeMusic(id, frames, volume = 1.0) {
+    this.#promoteQueuedMusic();
+    const music = this.#createMusic(id, 0);
+    if (!music) return;
+    const old = this.#currentMusic;
+    this.#cancelQueuedMusic();
+    if (old) this.#fadeOut(old, frames * FRAME_DURATION);
+
+    const now = this.#audioContext.currentTime;
+    music.volume = Math.max(0, Math.min(1, volume));
+    music.gain.gain.setValueAtTime(0, now);
+    music.gain.gain.linearRampToValueAtTime(music.volume, now + Math.max(0, frames) * FRAME_DURATION);
+    this.#currentMusic = music;
+    this.#startMusicSource(music, now, 0);
+  }
+
+  /**
+   * Play a track once the current music reaches its end
+   * Starts right away when nothing plays; replaces a previously queued track
+   * @param id - Music ID
+   * @param volume - Volume (0-1)
+   */
+  queueMusic(id, volume = 1.0) {
+    this.#promoteQueuedMusic();
+    if (!this.#currentMusic) {
+      this.playMusic(id, volume);
+      return;
+    }
+    const music = this.#createMusic(id, volume);
+    if (!music) return;
+    this.#cancelQueuedMusic();
+    this.#queuedMusic = music;
+    if (this.#currentMusic.pausedAt === null) this.#scheduleQueuedMusic();
+  }
+
+  /**
+   * Pause the current music, keeping its position
+   */
+  pauseMusic() {
+    this.#promoteQueuedMusic();
+    const music = this.#currentMusic;
+    if (!music || music.pausedAt !== null) return;
+    const now = this.#audioContext.currentTime;
+    music.pausedAt = this.#getMusicPosition(music, now) ?? music.source.buffer.duration;
+    music.source.stop();
+    if (this.#queuedMusic?.source) {
+      this.#queuedMusic.source.stop();
+      this.#queuedMusic.source = null;
+    }
+  }
+
+  /**
+   * Resume paused music where it stopped
+   */
+  resumeMusic() {
+    const music = this.#currentMusic;
+    if (!music || music.pausedAt === null) return;
+    this.#startMusicSource(music, this.#audioContext.currentTime, music.pausedAt);
+    music.pausedAt = null;
+    if (this.#queuedMusic) this.#scheduleQueuedMusic();
+  }
+
+  /**
+   * Jump to an order position of the playing tracker song
+   * The jump happens exactly at the start of the next row
+   * @param position - Order list index
+   */
+  setMusicOrder(position) {
+    this.#promoteQueuedMusic();
+    const music = this.#currentMusic;
+    const song = music && this.#songs.get(music.id);
+    if (!song || position < 0 || position >= song.order.length) return;
+
+    if (music.pausedAt !== null) {
+      music.pausedAt = song.orderTimes[position];
       return;
     }
 
+    // A jump still waiting for its row is replaced, not stacked
+    const now = this.#audioContext.currentTime;
+    let when = music.startTime;
+    if (when <= now) {
+      const played = this.#getMusicPosition(music, now);
+      if (played === null) return;
+      const nextRow = Math.ceil(played / song.rowDuration) * song.rowDuration;
+      when = now + (nextRow - played);
+    }
+
+    music.source.stop(when);
+    this.#startMusicSource(music, when, song.orderTimes[position]);
+    if (this.#queuedMusic) this.#scheduleQueuedMusic();
+  }
+
+  /**
+   * Restart the music where the music sequencer says it is
+   * Called by the worker after memory was restored (state load, replay start, rewind)
+   * @param playback - See MusicSequencer.getPlayback(), null to stop the music
+   */
+  syncMusic(playback) {
+    this.stopMusic();
+    if (!playback) return;
+    const music = this.#createMusic(playback.id, playback.volume);
+    if (!music) return;
+
+    const song = this.#songs.get(music.id);
+    const offset = this.#wrapMusicPosition(music.id, (song ? song.orderTimes[playback.order] : 0) + playback.elapsed);
+    if (offset === null) return;
+    this.#currentMusic = music;
+    this.#startMusicSource(music, this.#audioContext.currentTime, offset);
+
+    if (playback.nextOrder !== null) this.setMusicOrder(playback.nextOrder);
+    if (playback.paused) this.pauseMusic();
+    if (playback.queuedId !== null) this.queueMusic(playback.queuedId, playback.queuedVolume);
+  }
+
+  // Music track routed through the music bus, null if the ID is not loaded
+  #createMusic(id, volume) {
+    if (!this.#musicBuffers.has(id)) {
+      console.warn(`Music ${id} not loaded`);
+      return null;
+    }
+    const gain = this.#audioContext.createGain();
+    const clamped = Math.max(0, Math.min(1, volume));
+    gain.gain.value = clamped;
+    gain.connect(this.#buses.get('music'));
+    return { id, volume: clamped, source: null, gain, startTime: 0, startOffset: 0, pausedAt: null };
+  }
+
+  // Start a source for a track at a context time and buffer offset
+  #startMusicSource(music, when, offset) {
     const source = this.#audioContext.createBufferSource();
-    const gainNode = this.#audioContext.createGain();
-    
-    source.buffer = buffer;
-    source.loop = true;
-    gainNode.gain.value = Math.max(0, Math.min(1, volume));
-    
-    source.connect(gainNode);
-    gainNode.connect(this.#audioContext.destination);
-    source.start(0);
-    
-    this.#currentMusic = source;
+    source.buffer = this.#musicBuffers.get(music.id);
+
+    const song = this.#songs.get(music.id);
+    source.loop = this.#isLooping(music.id);
+    if (song && song.loop >= 0) {
+      source.loopStart = song.orderTimes[song.loop];
+      source.loopEnd = source.buffer.duration;
+    }
+
+    source.connect(music.gain);
+    source.start(when, offset);
+    music.source = source;
+    music.startTime = when;
+    music.startOffset = offset;
+  }
+
+  #isLooping(id) {
+    const song = this.#songs.get(id);
+    return !song || song.loop >= 0;
+  }
+
+  // Let the current track finish its loop and start the queued one right after
+  #scheduleQueuedMusic() {
+    const current = this.#currentMusic;
+    const queued = this.#queuedMusic;
+    queued.source?.stop();
+
+    const now = this.#audioContext.currentTime;
+    const duration = current.source.buffer.duration;
+    let end = current.startTime + duration - current.startOffset;
+    if (current.startTime < now) {
+      end = now + duration - (this.#getMusicPosition(current, now) ?? duration);
+    }
+    current.source.loop = false;
+    this.#startMusicSource(queued, end, 0);
+  }
+
+  #cancelQueuedMusic() {
+    const queued = this.#queuedMusic;
+    if (!queued) return;
+    queued.source?.stop();
+    queued.gain.disconnect();
+    this.#queuedMusic = null;
+    const current = this.#currentMusic;
+    if (current && current.pausedAt === null) {
+      current.source.loop = this.#isLooping(current.id);
+    }
+  }
+
+  // The queued track becomes current once it started playing
+  #promoteQueuedMusic() {
+    const queued = this.#queuedMusic;
+    if (!queued || !queued.source || queued.startTime > this.#audioContext.currentTime) return;
+    this.#currentMusic = queued;
+    this.#queuedMusic = null;
+  }
+
+  #fadeOut(music, duration) {
+    if (music.pausedAt !== null) return;
+    const now = this.#audioContext.currentTime;
+    const gain = music.gain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + Math.max(0, duration));
+    music.source.stop(now + Math.max(0, duration));
+    this.#fadingMusic.add(music);
+    music.source.addEventListener('ended', () => this.#fadingMusic.delete(music));
+  }
+
+  // Playback position within a track's buffer, null once a one-shot song ended
+  #getMusicPosition(music, now) {
+    return this.#wrapMusicPosition(music.id, music.startOffset + Math.max(0, now - music.startTime));
+  }
+
+  // Map a position past the end of a track back into its loop, null for a one-shot song
+  #wrapMusicPosition(id, position) {
+    const song = this.#songs.get(id);
+    const duration = this.#musicBuffers.get(id).duration;
+    if (position >= duration) {
+      if (!this.#isLooping(id)) return null;
+      const loopStart = song ? song.orderTimes[song.loop] : 0;
+      position = loopStart + (position - loopStart) % (duration - loopStart);
+    }
+    return position;
   }
 
   /**
-   * Stop currently playing music
+   * Advance the synthesizer by one tick
+   * @param registers - Copy of the channel registers at AUDIO_ADDR after the tick
    */
-  stopMusic() {
-    if (this.#currentMusic) {
-      this.#currentMusic.stop();
-      this.#currentMusic = null;
+  updateSynth(registers) {
+    const view = new DataView(registers.buffer, registers.byteOffset, registers.byteLength);
+    const now = this.#audioContext.currentTime;
+
+    this.#synthChannels.forEach((channel, i) => {
+      const base = i * AUDIO_CHANNEL_SIZE;
+      const frequency = view.getUint16(base, true);
+      const volume = view.getUint8(base + 2) / 255;
+      const waveform = view.getUint8(base + 3);
+      const duty = view.getUint8(base + 4);
+      const attack = view.getUint8(base + 5);
+      const release = view.getUint8(base + 6);
+      const control = view.getUint8(base + 7);
+
+      this.#stepEnvelope(channel, control, attack, release);
+
+      if (channel.stage === 'idle' || frequency === 0) {
+        channel.gain.gain.setTargetAtTime(0, now, SYNTH_SMOOTHING);
+        if (channel.stage === 'idle') this.#stopSynthSource(channel);
+        return;
+      }
+
+      this.#setSynthSource(channel, waveform, duty);
+      if (waveform === SYNTH_NOISE) {
+        channel.source.playbackRate.setValueAtTime(frequency / this.#audioContext.sampleRate, now);
+      } else {
+        channel.source.frequency.setValueAtTime(frequency, now);
+      }
+      channel.gain.gain.setTargetAtTime(channel.level * volume * SYNTH_CHANNEL_GAIN, now, SYNTH_SMOOTHING);
+    });
+  }
+
+  /**
+   * Silence all synthesizer channels immediately
+   */
+  resetSynth() {
+    for (const channel of this.#synthChannels) {
+      channel.stage = 'idle';
+      channel.level = 0;
+      channel.gain.gain.cancelScheduledValues(0);
+      channel.gain.gain.value = 0;
+      this.#stopSynthSource(channel);
+    }
+  }
+
+  // Attack on trigger (or gate from idle), sustain while gated, then release
+  #stepEnvelope(channel, control, attack, release) {
+    if ((control & AUDIO_TRIGGER) || ((control & AUDIO_GATE) && channel.stage === 'idle')) {
+      channel.stage = 'attack';
+      channel.level = 0;
+    }
+    if (channel.stage === 'attack') {
+      channel.level = attack ? Math.min(1, channel.level + 1 / attack) : 1;
+      if (channel.level >= 1) channel.stage = 'sustain';
+    }
+    if (channel.stage === 'sustain' && !(control & AUDIO_GATE)) {
+      channel.stage = 'release';
+    }
+    if (channel.stage === 'release') {
+      channel.level = release ? Math.max(0, channel.level - 1 / release) : 0;
+      if (channel.level <= 0) channel.stage = 'idle';
+    }
+  }
+
+  // Replace the channel source if the waveform or duty changed
+  #setSynthSource(channel, waveform, duty) {
+    if (waveform !== SYNTH_SQUARE) duty = -1;
+    if (channel.source && channel.waveform === waveform && channel.duty === duty) return;
+    this.#stopSynthSource(channel);
+
+    let source;
+    if (waveform === SYNTH_NOISE) {
+      source = this.#audioContext.createBufferSource();
+      source.buffer = this.#getNoiseBuffer();
+      source.loop = true;
+    } else {
+      source = this.#audioContext.createOscillator();
+      if (waveform === SYNTH_SQUARE && duty !== 0 && duty !== 128) {
+        source.setPeriodicWave(this.#getPulseWave(duty));
+      } else {
+        source.type = SYNTH_OSCILLATOR_TYPES[waveform] ?? 'square';
+      }
+    }
+    source.connect(channel.gain);
+    source.start();
+
+    channel.source = source;
+    channel.waveform = waveform;
+    channel.duty = duty;
+  }
+
+  #stopSynthSource(channel) {
+    if (!channel.source) return;
+    channel.source.stop();
+    channel.source.disconnect();
+    channel.source = null;
+  }
+
+  // Fourier series of a pulse wave with the given duty (1-255 = n/256)
+  #getPulseWave(duty) {
+    let wave = this.#pulseWaves.get(duty);
+    if (!wave) {
+      const real = new Float32Array(SQUARE_HARMONICS);
+      const imag = new Float32Array(SQUARE_HARMONICS);
+      for (let n = 1; n < SQUARE_HARMONICS; n++) {
+        real[n] = 2 / (n * Math.PI) * Math.sin(n * Math.PI * duty / 256);
+      }
+      wave = this.#audioContext.createPeriodicWave(real, imag);
+      this.#pulseWaves.set(duty, wave);
+    }
+    return wave;
+  }
+
+  // One value per sample, so playbackRate = frequency / sampleRate yields
+  // frequency new random values per second
+  #getNoiseBuffer() {
+    if (!this.#noiseBuffer) {
+      const length = this.#audioContext.sampleRate;
+      this.#noiseBuffer = this.#audioContext.createBuffer(1, length, length);
+      const data = this.#noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
     }
+    return this.#noiseBuffer;
   }
 }
 
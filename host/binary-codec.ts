@@ -0,0 +1,213 @@
+// Binary Codec - Byte buffer helpers and zero-run length encoding
+// Shared by host features that serialize console memory
+//
+// Zero-run length encoded stream is a sequence of [zeroRun][literalLength][literal bytes...]
+// where both counts are unsigned LEB128 varints. The decoder needs the
+// original length, which callers store alongside the encoded bytes.
+//
+// Game RAM snapshots and XOR deltas between consecutive ticks are mostly
+// zeros, so this typically shrinks them by one to three orders of magnitude.
+
+/**
+ * Encode a byte block
+ * @param input - Bytes to encode
+ * @returns Encoded bytes
+ */
+export function rleEncode(input) {
+  const out = new ByteWriter(64);
+  const length = input.length;
+  let i = 0;
+
+  while (i < length) {
+    const zeroStart = i;
+    while (i < length && input[i] === 0) i++;
+    const zeroRun = i - zeroStart;
+
+    // Literal run ends at the next pair of zeros (a single zero is cheaper inline)
+    const literalStart = i;
+    while (i < length && !(input[i] === 0 && (i + 1 >= length || input[i + 1] === 0))) i++;
+
+    out.writeVarint(zeroRun);
+    out.writeVarint(i - literalStart);
+    out.writeBytes(input.subarray(literalStart, i));
+  }
+
+  return out.toBytes();
+}
+
+/**
+ * Decode a byte block produced by rleEncode
+ * @param encoded - Encoded bytes
+ * @param output - Destination buffer, sized to the original length
+ * @returns The output buffer
+ */
+export function rleDecode(encoded, output) {
+  output.fill(0);
+  let pos = 0;
+  let outPos = 0;
+
+  while (pos < encoded.length) {
+    let zeroRun = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = encoded[pos++];
+      zeroRun += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+
+    let literalLength = 0;
+    shift = 0;
+    do {
+      byte = encoded[pos++];
+      literalLength += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+
+    outPos += zeroRun;
+    if (outPos + literalLength > output.length || pos + literalLength > encoded.length) {
+      throw new Error('Corrupt RLE data');
+    }
+    output.set(encoded.subarray(pos, pos + literalLength), outPos);
+    pos += literalLength;
+    outPos += literalLength;
+  }
+
+  return output;
+}
+
+/**
+ * Growable byte buffer used to build binary data
+ */
+export class ByteWriter {
+  #bytes;
+  #view;
+  #length = 0;
+
+  constructor(initialCapacity = 256) {
+    this.#bytes = new Uint8Array(initialCapacity);
+    this.#view = new DataView(this.#bytes.buffer);
+  }
+
+  get length() {
+    return this.#length;
+  }
+
+  writeU8(value) {
+    this.#reserve(1);
+    this.#view.setUint8(this.#length, value);
+    this.#length += 1;
+  }
+
+  writeU16(value) {
+    this.#reserve(2);
+    this.#view.setUint16(this.#length, value, true);
+    this.#length += 2;
+  }
+
+  writeI16(value) {
+    this.#reserve(2);
+    this.#view.setInt16(this.#length, value, true);
+    this.#length += 2;
+  }
+
+  writeU32(value) {
+    this.#reserve(4);
+    this.#view.setUint32(this.#length, value, true);
+    this.#length += 4;
+  }
+
+  writeF64(value) {
+    this.#reserve(8);
+    this.#view.setFloat64(this.#length, value, true);
+    this.#length += 8;
+  }
+
+  writeVarint(value) {
+    do {
+      let byte = value & 0x7f;
+      value = Math.floor(value / 128);
+      if (value > 0) byte |= 0x80;
+      this.writeU8(byte);
+    } while (value > 0);
+  }
+
+  writeBytes(bytes) {
+    this.#reserve(bytes.length);
+    this.#bytes.set(bytes, this.#length);
+    this.#length += bytes.length;
+  }
+
+  /**
+   * Get a copy of the written bytes
+   */
+  toBytes() {
+    return this.#bytes.slice(0, this.#length);
+  }
+
+  #reserve(count) {
+    if (this.#length + count <= this.#bytes.length) return;
+    let capacity = this.#bytes.length * 2;
+    while (capacity < this.#length + count) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.#bytes.subarray(0, this.#length));
+    this.#bytes = grown;
+    this.#view = new DataView(grown.buffer);
+  }
+}
+
+/**
+ * Sequential reader over binary data (little-endian)
+ * Throws when reading past the end of the data
+ */
+export class ByteReader {
+  #bytes;
+  #view;
+  #pos = 0;
+
+  constructor(bytes) {
+    this.#bytes = bytes;
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get remaining() {
+    return this.#bytes.length - this.#pos;
+  }
+
+  readU8() {
+    return this.#view.getUint8(this.#advance(1));
+  }
+
+  readU16() {
+    return this.#view.getUint16(this.#advance(2), true);
+  }
+
+  readI16() {
+    return this.#view.getInt16(this.#advance(2), true);
+  }
+
+  readU32() {
+    return this.#view.getUint32(this.#advance(4), true);
+  }
+
+  readF64() {
+    return this.#view.getFloat64(this.#advance(8), true);
+  }
+
+  /**
+   * Read a copy of the next count bytes
+   */
+  readBytes(count) {
+    const start = this.#advance(count);
+    return this.#bytes.slice(start, start + count);
+  }
+
+  #advance(count) {
+    if (this.#pos + count > this.#bytes.length) {
+      throw new Error('Unexpected end of data');
+    }
+    const start = this.#pos;
+    this.#pos += count;
+    return start;
+  }
+}
@@ -0,0 +1,142 @@
+// Cartridge Environment - The `env` imports every cartridge is linked against
+//
+// Shared by the browser host (main.ts) and the headless runner
+// (scripts/run-cartridge.js) so both expose exactly the same console.
+// Must not touch the DOM: host-specific behavior is injected through hooks.
+
+import { FB_START, FB_INDEXED_SIZE, WIDTH, HEIGHT, SFX_ADDR, SFX_SIZE, SFX_NEXT_VOICE_ADDR } from '../memory-map.js';
+import { isIndexedMode, getClip } from './video.js';
+
+/**
+ * Read an AssemblyScript string from memory
+ * Strings are UTF-16LE with their byte length stored in the object header
+ * @param memory - WebAssembly.Memory the cartridge runs in
+ * @param ptr - String pointer passed by the cartridge
+ * @returns Decoded string ('null' for a null pointer)
+ */
+export function readString(memory, ptr) {
+  if (!ptr) return 'null';
+  const byteLength = new Uint32Array(memory.buffer)[(ptr - 4) >>> 2];
+  const chars = new Uint16Array(memory.buffer, ptr, byteLength >>> 1);
+  let result = '';
+  // Decode in chunks to stay below the argument limit of fromCharCode
+  for (let i = 0; i < chars.length; i += 1024) {
+    result += String.fromCharCode(...chars.subarray(i, i + 1024));
+  }
+  return result;
+}
+
+/**
+ * Number voice handles from 1 again, called before init()
+ * @param memory - Console WebAssembly.Memory
+ */
+export function resetVoiceHandles(memory) {
+  new Uint8Array(memory.buffer, SFX_ADDR, SFX_SIZE).fill(0);
+}
+
+/**
+ * Build the `env` import object for a cartridge
+ * @param memory - Console WebAssembly.Memory
+ * @param hooks - Host callbacks:
+ *   log(type, message) - Console output ('LOG', 'WARN', 'ERROR', 'TRACE', 'ABORT')
+ *   onAbort()          - Called after the cartridge aborted
+ *   commitSave()       - Persist save RAM now
+ *   audio              - {playSfx(voice, id, volume, loop), stopSfx(voice), setSfxPitch(voice, pitch),
+ *                         setSfxPan(voice, pan), setSfxVolume(voice, volume), playMusic(id, volume),
+ *                         stopMusic(), fadeOutMusic(frames), crossfadeMusic(id, frames, volume),
+ *                         queueMusic(id, volume), pauseMusic(), resumeMusic(), setMusicOrder(position)}
+ *
+ * Voice handles are numbered here rather than by the audio backend, so a
+ * cartridge sees the same handles in every host. The counter lives at
+ * SFX_NEXT_VOICE_ADDR, so save states and rewind restore it with the handles
+ * the cartridge kept in RAM.
+ */
+export function createEnv(memory, hooks) {
+  const fb32 = new Uint32Array(memory.buffer, FB_START, WIDTH * HEIGHT);
+  const fb8 = new Uint8Array(memory.buffer, FB_START, FB_INDEXED_SIZE);
+  const view = new DataView(memory.buffer);
+
+  return {
+    memory,
+    abort: (msg, file, line, column) => {
+      const message = `Abort at ${readString(memory, file)} ${line}:${column} => ${readString(memory, msg)}`;
+      hooks.log('ABORT', message);
+      hooks.onAbort();
+    },
+    trace: (msg, n, ...args) => {
+      const values = args.slice(0, n).join(', ');
+      hooks.log('TRACE', readString(memory, msg) + (n ? ` ${values}` : ''));
+    },
+    // Fast framebuffer clear using native JS fill(), color is a palette index in indexed mode
+    // Only the clip rectangle is cleared (see setClip() in sdk/clip.ts)
+    clearFramebuffer: (color) => {
+      const fb = isIndexedMode(memory) ? fb8 : fb32;
+      const value = fb === fb8 ? color & 0xff : color | 0xFF000000;
+      const { left, top, right, bottom } = getClip(memory);
+      if (left === 0 && top === 0 && right === WIDTH && bottom === HEIGHT) {
+        fb.fill(value);
+        return;
+      }
+      for (let y = top; y < bottom && left < right; y++) {
+        fb.fill(value, y * WIDTH + left, y * WIDTH + right);
+      }
+    },
+    // Persist save RAM (see SAVE_RAM_ADDR)
+    commitSave: () => {
+      hooks.commitSave();
+    },
+    // Console logging functions
+    'console.log': (msg) => {
+      hooks.log('LOG', readString(memory, msg));
+    },
+    'console.warn': (msg) => {
+      hooks.log('WARN', readString(memory, msg));
+    },
+    'console.error': (msg) => {
+      hooks.log('ERROR', readString(memory, msg));
+    },
+    // Audio functions
+    'audio.playSfx': (id, volume, loop) => {
+      const voice = view.getUint32(SFX_NEXT_VOICE_ADDR, true) || 1;
+      view.setUint32(SFX_NEXT_VOICE_ADDR, voice >= 0x7fffffff ? 1 : voice + 1, true);
+      hooks.audio.playSfx(voice, id, volume, loop !== 0);
+      return voice;
+    },
+    'audio.stopSfx': (voice) => {
+      hooks.audio.stopSfx(voice);
+    },
+    'audio.setSfxPitch': (voice, pitch) => {
+      hooks.audio.setSfxPitch(voice, pitch);
+    },
+    'audio.setSfxPan': (voice, pan) => {
+      hooks.audio.setSfxPan(voice, pan);
+    },
+    'audio.setSfxVolume': (voice, volume) => {
+      hooks.audio.setSfxVolume(voice, volume);
+    },
+    'audio.playMusic': (id, volume) => {
+      hooks.audio.playMusic(id, volume);
+    },
+    'audio.stopMusic': () => {
+      hooks.audio.stopMusic();
+    },
+    'audio.fadeOutMusic': (frames) => {
+      hooks.audio.fadeOutMusic(frames);
+    },
+    'audio.crossfadeMusic': (id, frames, volume) => {
+      hooks.audio.crossfadeMusic(id, frames, volume);
+    },
+    'audio.queueMusic': (id, volume) => {
+      hooks.audio.queueMusic(id, volume);
+    },
+    'audio.pauseMusic': () => {
+      hooks.audio.pauseMusic();
+    },
+    'audio.resumeMusic': () => {
+      hooks.audio.resumeMusic();
+    },
+    'audio.setMusicOrder': (position) => {
+      hooks.audio.setMusicOrder(position);
+    }
+  };
+}
@@ -0,0 +1,711 @@
+// Cartridge Worker - Runs the cartridge and the fixed-timestep loop off the main thread
+//
+// The worker owns the console WebAssembly.Memory and everything that touches
+// it between ticks (save states, input replay, rewind, save RAM) and renders
+// frames on an OffscreenCanvas, handing each one to the page as an
+// ImageBitmap. The main thread (main.ts) keeps the DOM: it sends one 'frame'
+// message per animation frame with the current input and receives stats,
+// logs and audio calls back.
+//
+// When the cartridge function being called changes, the worker reports it
+// and the time it started ('phase'), so the page watchdog can terminate a
+// cartridge stuck in a loop. It reports idle once the worker is free again.
+//
+// Messages from the main thread ({type, ...}):
+//   assets           {offset, bytes}                 - Sprite or map region staged by the page
+//   music-timings    {timings}                       - Durations of the loaded music, tracker song layouts
+//   load             {name, bytes, hash, skipInit}   - Instantiate a cartridge
+//   frame            {now, input, rewinding, resetClock} - Advance the loop and present
+//   restart, clear-save-ram, rewind-start, rewind-step
+//   step             {count, input}                  - Debugger: run count ticks, then draw
+//   run-to           {tick, input}                   - Debugger: run until the tick counter reaches tick
+//   set-speed        {speed}                         - Simulation speed multiplier, Infinity for turbo
+//   save-state       {slot},  load-state {slot}
+//   toggle-recording, play-recording, export-recording, import-recording {bytes}
+//   set-audio-log    {enabled}                       - Record audio calls (see audio-log.ts)
+//   export-audio-log                                 - Request the audio log as text
+//   read-memory      {addr, size}                    - Request a copy of a memory range
+//   write-memory     {addr, value}
+//
+// Messages to the main thread:
+//   log {entryType, message}, audio {method, args}, loaded {name, ok},
+//   phase {phase, startedAt}, present {bitmap, tick}, synth {ticks}, frame-done {stats}, aborted {aborted}, slots-changed,
+//   recording {name, ticks, bytes}, audio-log {name, count, text}, memory {addr, bytes}
+
+import { createEnv, resetVoiceHandles } from './cartridge-env.js';
+import { saveStateManager } from './save-states.js';
+import { inputRecorder } from './input-recorder.js';
+import { rewindBuffer } from './rewind-buffer.js';
+import { saveRam } from './save-ram.js';
+import { musicSequencer } from './music-sequencer.js';
+import { audioLog, formatAudioEntry, AUDIO_METHODS } from './audio-log.js';
+import { resetSynthRegisters, latchSynthRegisters } from './synth-registers.js';
+import { getVideoMode, resetVideo, isIndexedMode, expandIndexed } from './video.js';
+import {
+  WIDTH, HEIGHT, FB_START, FB_SIZE, INPUT_ADDR, INPUT_P2_BUTTONS_ADDR, MOUSE_ADDR, VIDEO_MODE_RGBA
+} from '../memory-map.js';
+
+const scope = self as any;
+
+const memory = new WebAssembly.Memory({
+  initial: 16,   // 16 × 64 KB = 1 MB
+  maximum: 16    // fixed, no growth
+});
+
+saveStateManager.init(memory);
+rewindBuffer.init(memory);
+saveRam.init(memory);
+
+// Framebuffer view (persistent across game loads)
+const image = new ImageData(new Uint8ClampedArray(memory.buffer, FB_START, FB_SIZE), WIDTH, HEIGHT);
+
+// Indexed frames are expanded here rather than over the cartridge's pixels
+const indexedImage = new ImageData(WIDTH, HEIGHT);
+const indexedPixels = new Uint32Array(indexedImage.data.buffer);
+const offscreen = new OffscreenCanvas(WIDTH, HEIGHT);
+const ctx = offscreen.getContext('2d', { alpha: false });
+
+// === Fixed Timestep Loop ===
+
+// This ensures deterministic game logic regardless of actual frame rate
+const TICK_HZ = 60;                    // Target simulation rate (60 updates per second)
+const DT = 1000 / TICK_HZ;             // Delta time per update (16.67ms)
+const MAX_UPDATES = 5;                 // Safety cap to prevent spiral of death (at 1x speed)
+const TURBO_BUDGET = 12;               // Time spent on updates per frame in turbo mode (ms)
+const PHASE_REPORT_INTERVAL = 50;      // Re-report a repeated phase to the watchdog at most this often (ms)
+
+musicSequencer.init(memory, DT / 1000);
+
+let last = 0;                          // Last frame timestamp
+let acc = 0;                           // Time accumulator for fixed timestep
+
+// Simulation speed multiplier: scales the time fed to the accumulator, so
+// every tick still advances the game by exactly DT. Infinity (turbo) runs
+// as many ticks as fit in TURBO_BUDGET each frame.
+let speed = 1;
+
+// WASM module state
+let init, update, draw;
+let currentGame = null;
+let cartridgeHash = null;
+let hasAborted = false;
+let currentPhase = null;
+let reportedPhase = null;       // Phase the page watchdog last heard of, null when idle
+let reportedAt = 0;
+let videoMode = VIDEO_MODE_RGBA;
+
+// Ticks run since init(), shown by the frame-step debugger
+let tickCount = 0;
+
+// Synthesizer registers after each tick not yet sent to the page
+let synthTicks = [];
+
+// The held rewind key stepped back since the page music was last synced
+let musicRewound = false;
+
+// Input state as of the last tick, for edge detection
+let prevInputMask = 0;
+let prevP2InputMask = 0;
+let prevMouseButtons = 0;
+
+function log(entryType, message) {
+  scope.postMessage({ type: 'log', entryType, message });
+}
+
+// Forward an audio call to the page, which owns the AudioContext
+// Music calls also move the sequencer that reports the position to the cartridge
+function postAudio(method, args) {
+  musicSequencer.follow(method, args);
+  scope.postMessage({ type: 'audio', method, args });
+}
+
+// Run a cartridge export, reporting it to the page watchdog when the phase changes
+// Repeated calls (turbo) are reported again every PHASE_REPORT_INTERVAL ms
+function runPhase(phase, fn) {
+  const now = performance.timeOrigin + performance.now();
+  if (phase !== reportedPhase || now - reportedAt > PHASE_REPORT_INTERVAL) {
+    if (reportedPhase === null) queueMicrotask(reportIdle);
+    reportedPhase = phase;
+    reportedAt = now;
+    scope.postMessage({ type: 'phase', phase, startedAt: now });
+  }
+  currentPhase = phase;
+  try {
+    fn();
+  } finally {
+    currentPhase = null;
+  }
+}
+
+// Tell the page watchdog no cartridge call is running, once the worker is free again
+function reportIdle() {
+  reportedPhase = null;
+  scope.postMessage({ type: 'phase', phase: null, startedAt: 0 });
+}
+
+// Tick an audio call belongs to: update() runs before the counter advances
+function getAudioTick() {
+  return currentPhase === 'update' ? tickCount + 1 : tickCount;
+}
+
+audioLog.onRecord(entry => log('AUDIO', formatAudioEntry(entry)));
+
+function setAborted(aborted) {
+  if (hasAborted === aborted) return;
+  hasAborted = aborted;
+  scope.postMessage({ type: 'aborted', aborted });
+}
+
+// Instantiate a cartridge and run its init()
+async function loadGame({ name, bytes, hash, skipInit }) {
+  stopReplay('cartridge reloaded');
+  musicSequencer.stop();               // The page stops the music on every load
+  init = update = draw = null;
+  currentGame = name;
+  cartridgeHash = hash;
+  setAborted(false);
+
+  try {
+    const wasm = await WebAssembly.instantiate(bytes, {
+      env: createEnv(memory, {
+        log,
+        onAbort: () => {
+          setAborted(true);
+        },
+        commitSave: () => {
+          saveRam.commit().catch(e => {
+            log('ERROR', `Failed to write save RAM: ${e.message}`);
+          });
+        },
+        audio: audioLog.wrap(
+          Object.fromEntries(AUDIO_METHODS.map(method => [method, (...args) => postAudio(method, args)])),
+          getAudioTick
+        )
+      })
+    });
+
+    // Validate required exports
+    const required = ['init', 'update', 'draw'];
+    const missing = required.filter(name => !wasm.instance.exports[name]);
+
+    if (missing.length > 0) {
+      throw new Error(`Cartridge missing required exports: ${missing.join(', ')}`);
+    }
+    const mode = getVideoMode(wasm.instance.exports);
+
+    // Initialize the game (skip if hot reloading to preserve state)
+    if (!skipInit) {
+      try {
+        await saveRam.load(name);
+      } catch (e) {
+        log('WARN', `Failed to read save RAM, changes will not be persisted: ${e.message}`);
+      }
+      resetSynthRegisters(memory);
+      resetVoiceHandles(memory);
+      resetVideo(memory, mode);
+      audioLog.clear();
+      tickCount = 0;
+      runPhase('init', wasm.instance.exports.init as Function);
+      log('LOG', `${name} loaded successfully`);
+    } else {
+      // The palette survives unless the new build switched modes
+      if (mode !== videoMode) resetVideo(memory, mode);
+      log('LOG', `${name} hot reloaded (memory preserved)`);
+    }
+    videoMode = mode;
+
+    // Assign lifecycle functions
+    init = wasm.instance.exports.init;
+    update = wasm.instance.exports.update;
+    draw = wasm.instance.exports.draw;
+    rewindBuffer.reset();
+
+    acc = 0;
+    last = 0;
+    prevInputMask = 0;
+    prevP2InputMask = 0;
+    prevMouseButtons = 0;
+    scope.postMessage({ type: 'loaded', name, ok: true });
+  } catch (e) {
+    log('ERROR', `Failed to load ${name}: ${e.message}`);
+    setAborted(true);
+    scope.postMessage({ type: 'loaded', name, ok: false });
+  }
+}
+
+// Render the current state and present it
+function present() {
+  try {
+    runPhase('draw', draw);
+    if (isIndexedMode(memory)) {
+      expandIndexed(memory, indexedPixels);
+      ctx.putImageData(indexedImage, 0, 0);
+    } else {
+      ctx.putImageData(image, 0, 0);
+    }
+    const bitmap = offscreen.transferToImageBitmap();
+    scope.postMessage({ type: 'present', bitmap, tick: tickCount }, { transfer: [bitmap] });
+  } catch (e) {
+    log('ERROR', `Error in draw(): ${e.message}`);
+    setAborted(true);
+  }
+}
+
+// Run one fixed timestep with the given live input
+// Recorded input replaces it during replay
+function runTick(input) {
+  let tick = null;
+  if (inputRecorder.isPlaying()) {
+    tick = inputRecorder.nextTick();
+    if (!tick) log('LOG', 'Replay finished, live input resumed');
+  }
+  if (!tick) {
+    tick = input;
+  }
+  inputRecorder.recordTick(tick);
+
+  // Write input state to WASM memory
+  const inputView = new DataView(memory.buffer);
+
+  // Controller input
+  // Layout: [u8 p1_buttons][u8 p1_prev_buttons][u8 p2_buttons][u8 p2_prev_buttons]
+  inputView.setUint8(INPUT_ADDR, tick.buttons);
+  inputView.setUint8(INPUT_ADDR + 1, prevInputMask);
+  inputView.setUint8(INPUT_P2_BUTTONS_ADDR, tick.p2Buttons);
+  inputView.setUint8(INPUT_P2_BUTTONS_ADDR + 1, prevP2InputMask);
+
+  // Mouse input
+  // Layout: [i16 x][i16 y][u8 buttons][u8 prev_buttons]
+  inputView.setInt16(MOUSE_ADDR, tick.mouseX, true);
+  inputView.setInt16(MOUSE_ADDR + 2, tick.mouseY, true);
+  inputView.setUint8(MOUSE_ADDR + 4, tick.mouseButtons);
+  inputView.setUint8(MOUSE_ADDR + 5, prevMouseButtons);
+
+  musicSequencer.advance();            // Music position as of this tick
+  runPhase('update', update);          // Game logic update
+  queueSynthTick();                    // Before the rewind push, so history holds no pending triggers
+  rewindBuffer.push({ prevInputMask, prevP2InputMask, prevMouseButtons }); // Record tick for rewind
+  prevInputMask = tick.buttons;        // Track previous input state
+  prevP2InputMask = tick.p2Buttons;
+  prevMouseButtons = tick.mouseButtons; // Track previous mouse state
+  tickCount++;
+}
+
+// === Synthesizer ===
+
+// Queue the registers for the page and acknowledge the trigger bits
+function queueSynthTick() {
+  synthTicks.push(latchSynthRegisters(memory));
+}
+
+function flushSynthTicks() {
+  if (synthTicks.length === 0) return;
+  scope.postMessage({ type: 'synth', ticks: synthTicks });
+  synthTicks = [];
+}
+
+// Run the fixed timestep updates due since the last frame, then draw
+function frame({ now, input, rewinding, resetClock }) {
+  const stats = { updates: 0, updateTime: 0, drawTime: 0 };
+
+  if (resetClock || !last) {
+    last = now;
+    acc = 0;
+  }
+
+  const turbo = speed === Infinity;
+
+  // Accumulate scaled time since last frame
+  if (!turbo) acc += (now - last) * speed;
+  last = now;
+
+  // Step backwards one tick per frame while the rewind key is held
+  // The music keeps playing and is resynced once the key is released
+  if (rewinding && !hasAborted) {
+    if (rewindTick()) musicRewound = true;
+    acc = 0;
+  } else if (musicRewound) {
+    musicRewound = false;
+    syncMusic();
+  }
+
+  // Run fixed timestep updates
+  // This loop ensures update() is called at exactly TICK_HZ × speed frequency
+  // Multiple updates may occur per frame if rendering is slow
+  // Fast speeds need proportionally more updates per frame before hitting the cap
+  // Nothing runs forward while rewinding, not even in turbo
+  const maxUpdates = turbo ? Infinity : Math.max(MAX_UPDATES, Math.ceil(MAX_UPDATES * speed));
+  const turboEnd = performance.now() + TURBO_BUDGET;
+  while ((turbo ? performance.now() < turboEnd : acc >= DT) && stats.updates < maxUpdates && !rewinding && !hasAborted) {
+    try {
+      const updateStart = performance.now();
+
+      runTick(input);
+      if (!turbo) acc -= DT;             // Consume one timestep
+      stats.updates++;
+
+      stats.updateTime += performance.now() - updateStart;
+    } catch (e) {
+      log('ERROR', `Error in update(): ${e.message}`);
+      setAborted(true);
+      break;
+    }
+  }
+
+  // If we hit the update cap, skip frames rather than spiraling
+  // This prevents the game from freezing while trying to catch up
+  if (stats.updates >= maxUpdates) {
+    console.warn("Max updates reached, skipping frames");
+    acc = 0;                           // Reset to prevent runaway
+  }
+
+  flushSynthTicks();
+
+  // Persist save RAM if the cartridge flagged it during this frame's updates
+  saveRam.flushIfDirty().catch(e => {
+    log('ERROR', `Failed to write save RAM: ${e.message}`);
+  });
+
+  // Render current state (runs at display refresh rate)
+  if (!hasAborted) {
+    const drawStart = performance.now();
+    present();
+    stats.drawTime = performance.now() - drawStart;
+  }
+
+  scope.postMessage({
+    type: 'frame-done',
+    stats: {
+      ...stats,
+      acc,
+      replayStatus: inputRecorder.getStatus(),
+      isRecording: inputRecorder.isRecording(),
+      isPlaying: inputRecorder.isPlaying(),
+      rewindCount: rewindBuffer.getCount(),
+      rewindDataSize: rewindBuffer.getDataSize()
+    }
+  });
+}
+
+// Reset game state
+function restartGame() {
+  if (!init) return;
+  stopReplay('game restarted');
+  resetSynthRegisters(memory);
+  resetVoiceHandles(memory);
+  resetVideo(memory, videoMode);
+  audioLog.clear();
+  tickCount = 0;
+  try {
+    runPhase('init', init);
+  } catch (e) {
+    log('ERROR', `Error in init(): ${e.message}`);
+    setAborted(true);
+    return;
+  }
+  rewindBuffer.reset();
+  log('LOG', 'Game restarted');
+}
+
+// Redraw after the state was replaced; a restored state can recover from an abort
+function presentRestored() {
+  setAborted(false);
+  queueSynthTick();                    // The synthesizer plays the restored registers
+  flushSynthTicks();
+  stopSfxVoices();
+  syncMusic();
+  present();
+}
+
+// Silence the page's sound effects: their voices belong to the replaced state
+// The voice counter was restored with memory, so handles kept in RAM never reach a newer voice
+function stopSfxVoices() {
+  scope.postMessage({ type: 'audio', method: 'stopAllSfx', args: [] });
+}
+
+// Resume the page music where the restored music sequencer status says it is
+function syncMusic() {
+  scope.postMessage({ type: 'audio', method: 'syncMusic', args: [musicSequencer.getPlayback()] });
+}
+
+// === Save States ===
+
+function loopState() {
+  return { prevInputMask, prevP2InputMask, prevMouseButtons, acc, tick: tickCount };
+}
+
+// Capture the console state and persist it in a slot
+async function saveState(slot) {
+  if (!init) return;
+
+  const snapshot = saveStateManager.capture(currentGame, cartridgeHash, loopState());
+  try {
+    await saveStateManager.saveSlot(slot, snapshot);
+    log('LOG', `State saved to slot ${slot}`);
+  } catch (e) {
+    log('ERROR', `Failed to save state to slot ${slot}: ${e.message}`);
+  }
+  scope.postMessage({ type: 'slots-changed' });
+}
+
+// Restore the console state from a slot, refusing snapshots from other builds
+async function loadState(slot) {
+  if (!init) return;
+
+  const gameName = currentGame;
+  let snapshot;
+  try {
+    snapshot = await saveStateManager.loadSlot(gameName, slot);
+  } catch (e) {
+    log('ERROR', `Failed to read save slot ${slot}: ${e.message}`);
+    return;
+  }
+
+  // Cartridge was switched while the slot was being read
+  if (gameName !== currentGame) return;
+
+  if (!snapshot) {
+    log('WARN', `Save slot ${slot} is empty`);
+    return;
+  }
+
+  const problem = saveStateManager.checkCompatible(snapshot, currentGame, cartridgeHash);
+  if (problem) {
+    log('ERROR', `Refused to load slot ${slot}: ${problem}`);
+    return;
+  }
+
+  stopReplay('save state loaded');
+  ({ prevInputMask, prevP2InputMask, prevMouseButtons, acc, tick: tickCount } = saveStateManager.restore(snapshot));
+  rewindBuffer.reset();
+  log('LOG', `State loaded from slot ${slot}`);
+  presentRestored();
+}
+
+// === Input Replay ===
+
+// Stop recording or playback when the simulation is changed from outside update()
+function stopReplay(reason) {
+  const mode = inputRecorder.stop();
+  if (mode === 'recording') {
+    log('WARN', `Recording stopped: ${reason}`);
+  } else if (mode === 'playing') {
+    log('WARN', `Replay stopped: ${reason}`);
+  }
+}
+
+function toggleRecording() {
+  if (!init) return;
+
+  if (inputRecorder.isRecording()) {
+    inputRecorder.stop();
+    const ticks = inputRecorder.getRecording().ticks.length;
+    log('LOG', `Recording stopped (${ticks} ticks)`);
+    return;
+  }
+
+  stopReplay('new recording started');
+  inputRecorder.startRecording(saveStateManager.capture(currentGame, cartridgeHash, loopState()));
+  log('LOG', 'Recording input...');
+}
+
+// Restore the recording's starting state and feed its input back tick by tick
+function playRecording() {
+  const recording = inputRecorder.getRecording();
+  if (!init || !recording) return;
+
+  if (inputRecorder.isPlaying()) {
+    stopReplay('stopped by user');
+    return;
+  }
+
+  const problem = saveStateManager.checkCompatible(recording.start, currentGame, cartridgeHash);
+  if (problem) {
+    log('ERROR', `Refused to play replay: ${problem}`);
+    return;
+  }
+
+  inputRecorder.stop();
+  ({ prevInputMask, prevP2InputMask, prevMouseButtons, acc, tick: tickCount } = saveStateManager.restore(recording.start));
+  rewindBuffer.reset();
+  inputRecorder.startPlayback();
+  log('LOG', `Playing replay (${recording.ticks.length} ticks)`);
+  presentRestored();
+}
+
+// Hand the current recording to the page for download
+function exportRecording() {
+  const recording = inputRecorder.getRecording();
+  if (!recording) {
+    log('WARN', 'No recording to export');
+    return;
+  }
+  if (inputRecorder.isRecording()) {
+    log('WARN', 'Stop recording before exporting');
+    return;
+  }
+
+  const bytes = inputRecorder.exportRecording();
+  scope.postMessage({
+    type: 'recording',
+    name: recording.cartridge,
+    ticks: recording.ticks.length,
+    bytes
+  }, { transfer: [bytes.buffer] });
+}
+
+// Load a .tfr file as the current recording
+function importRecording(bytes) {
+  try {
+    stopReplay('replay imported');
+    const recording = inputRecorder.importRecording(bytes);
+    log('LOG', `Imported replay for ${recording.cartridge} (${recording.ticks.length} ticks)`);
+  } catch (e) {
+    log('ERROR', `Failed to import replay: ${e.message}`);
+  }
+}
+
+// === Audio Log ===
+
+function exportAudioLog() {
+  const count = audioLog.getEntries().length;
+  if (count === 0) {
+    log('WARN', audioLog.isEnabled() ? 'Audio log is empty' : 'Start the audio log before exporting');
+    return;
+  }
+  scope.postMessage({ type: 'audio-log', name: currentGame, count, text: audioLog.export() });
+}
+
+// === Rewind ===
+
+// Undo the newest tick recorded in the rewind buffer
+// Returns false when there is no more history
+function rewindTick() {
+  const state = rewindBuffer.stepBack();
+  if (!state) return false;
+  ({ prevInputMask, prevP2InputMask, prevMouseButtons } = state);
+  tickCount--;
+  queueSynthTick();
+  stopSfxVoices();
+  return true;
+}
+
+// === Frame Step ===
+
+// Run count ticks with the input latched when the step was requested, then draw once
+function step(count, input) {
+  if (!init || hasAborted) return;
+  for (let i = 0; i < count; i++) {
+    try {
+      runTick(input);
+    } catch (e) {
+      log('ERROR', `Error in update(): ${e.message}`);
+      setAborted(true);
+      break;
+    }
+  }
+  flushSynthTicks();
+  if (!hasAborted) present();
+}
+
+// Run until the tick counter reaches target
+function runTo(target, input) {
+  if (!init) return;
+  if (target <= tickCount) {
+    log('WARN', `Already at tick ${tickCount}, cannot run back to tick ${target}`);
+    return;
+  }
+  step(target - tickCount, input);
+}
+
+// === Save RAM ===
+
+// Erase the persisted save RAM of the current cartridge and restart it
+async function clearSaveRam() {
+  if (!init) return;
+  try {
+    await saveRam.clear();
+    log('LOG', `Save RAM of ${currentGame} erased`);
+    restartGame();
+  } catch (e) {
+    log('ERROR', `Failed to erase save RAM: ${e.message}`);
+  }
+}
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'assets':
+      new Uint8Array(memory.buffer).set(msg.bytes, msg.offset);
+      break;
+    case 'music-timings':
+      musicSequencer.setTimings(msg.timings);
+      break;
+    case 'load':
+      loadGame(msg);
+      break;
+    case 'frame':
+      if (init) frame(msg);
+      else scope.postMessage({ type: 'frame-done', stats: null });
+      break;
+    case 'restart':
+      restartGame();
+      break;
+    case 'save-state':
+      saveState(msg.slot);
+      break;
+    case 'load-state':
+      loadState(msg.slot);
+      break;
+    case 'toggle-recording':
+      toggleRecording();
+      break;
+    case 'play-recording':
+      playRecording();
+      break;
+    case 'export-recording':
+      exportRecording();
+      break;
+    case 'import-recording':
+      importRecording(msg.bytes);
+      break;
+    case 'rewind-start':
+      if (init && !hasAborted) stopReplay('rewind');
+      break;
+    case 'rewind-step':
+      // Paused rewind: step back one tick and show it
+      if (init && !hasAborted && rewindTick()) {
+        flushSynthTicks();
+        syncMusic();
+        present();
+      }
+      break;
+    case 'step':
+      step(msg.count, msg.input);
+      break;
+    case 'run-to':
+      runTo(msg.tick, msg.input);
+      break;
+    case 'set-speed':
+      speed = msg.speed;
+      acc = 0;
+      break;
+    case 'clear-save-ram':
+      clearSaveRam();
+      break;
+    case 'set-audio-log':
+      audioLog.setEnabled(msg.enabled);
+      break;
+    case 'export-audio-log':
+      exportAudioLog();
+      break;
+    case 'read-memory': {
+      const bytes = new Uint8Array(memory.buffer.slice(msg.addr, msg.addr + msg.size));
+      scope.postMessage({ type: 'memory', addr: msg.addr, bytes }, { transfer: [bytes.buffer] });
+      break;
+    }
+    case 'write-memory':
+      new Uint8Array(memory.buffer)[msg.addr] = msg.value;
+      break;
+  }
+};
@@ -6,7 +6,7 @@ const clearBtn = document.getElementById('clear-console');
 
 /**
  * Adds an entry to the console panel
- * @param {string} type - Entry type: 'LOG', 'WARN', 'ERROR', 'RUNTIME', 'LOAD', 'TRACE'
+ * @param {string} type - Entry type: 'LOG', 'WARN', 'ERROR', 'RUNTIME', 'LOAD', 'TRACE', 'AUDIO'
  * @param {string} message - Message to display
  */
 export function addConsoleEntry(type, message) {
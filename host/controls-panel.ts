@@ -0,0 +1,131 @@
+// Controls Panel
+// Dev tools panel for rebinding the keyboard keys and gamepad buttons of each player
+
+import { BUTTONS, inputBindings, formatKeyCode, formatGamepadButton } from './input-bindings.js';
+import { gamepadInput } from './gamepad-input.js';
+
+const bindingsEl = document.getElementById('bindings');
+const playerBtns = document.querySelectorAll('.bindings-player');
+const resetBtn = document.getElementById('reset-bindings');
+
+let player = 0;
+
+// Button currently waiting for a key or gamepad button, null when idle
+let capture = null;
+
+/**
+ * Check if the panel is waiting for a new binding
+ * Gameplay input and shortcuts are ignored while this is true (see main.ts)
+ * @returns {boolean}
+ */
+export function isCapturingBinding() {
+  return capture !== null;
+}
+
+function render() {
+  bindingsEl.innerHTML = '';
+  for (const { name } of BUTTONS) {
+    const { keys, gamepad } = inputBindings.getBindings(player, name);
+
+    const row = document.createElement('div');
+    row.className = 'binding-row';
+
+    const label = document.createElement('span');
+    label.className = 'metric-label';
+    label.textContent = name;
+    row.appendChild(label);
+
+    const list = document.createElement('span');
+    list.className = 'binding-list';
+    for (const code of keys) {
+      list.appendChild(createChip(formatKeyCode(code), () => {
+        inputBindings.removeBinding(player, name, 'keys', code);
+      }));
+    }
+    for (const index of gamepad) {
+      list.appendChild(createChip(formatGamepadButton(index), () => {
+        inputBindings.removeBinding(player, name, 'gamepad', index);
+      }));
+    }
+    row.appendChild(list);
+
+    const addBtn = document.createElement('button');
+    addBtn.className = 'console-btn';
+    addBtn.textContent = capture?.button === name ? 'Press...' : '+';
+    addBtn.title = 'Press a key or gamepad button to bind it, Escape to cancel';
+    addBtn.addEventListener('click', () => startCapture(name));
+    row.appendChild(addBtn);
+
+    bindingsEl.appendChild(row);
+  }
+
+  for (let i = 0; i < playerBtns.length; i++) {
+    playerBtns[i].classList.toggle('active', i === player);
+  }
+}
+
+// Binding chip, click removes the binding
+function createChip(text, onRemove) {
+  const chip = document.createElement('button');
+  chip.className = 'binding-chip';
+  chip.textContent = text;
+  chip.title = 'Remove binding';
+  chip.addEventListener('click', onRemove);
+  return chip;
+}
+
+function startCapture(button) {
+  // Gamepad buttons already held when capture starts are ignored
+  capture = { button, player, heldButtons: gamepadInput.getPressedButtons() };
+  render();
+  requestAnimationFrame(pollGamepadCapture);
+}
+
+function stopCapture() {
+  capture = null;
+  render();
+}
+
+function pollGamepadCapture() {
+  if (!capture) return;
+  const pressed = gamepadInput.getPressedButtons();
+  const index = pressed.find(i => !capture.heldButtons.includes(i));
+  if (index !== undefined) {
+    const { button, player } = capture;
+    capture = null;
+    inputBindings.addBinding(player, button, 'gamepad', index);
+    return;
+  }
+  capture.heldButtons = pressed;
+  requestAnimationFrame(pollGamepadCapture);
+}
+
+// Capture phase, so the key never reaches gameplay or shortcut handlers
+window.addEventListener('keydown', (e) => {
+  if (!capture) return;
+  e.preventDefault();
+  e.stopImmediatePropagation();
+  if (e.code === 'Escape') {
+    stopCapture();
+    return;
+  }
+  const { button, player } = capture;
+  capture = null;
+  inputBindings.addBinding(player, button, 'keys', e.code);
+}, true);
+
+for (let i = 0; i < playerBtns.length; i++) {
+  playerBtns[i].addEventListener('click', () => {
+    player = i;
+    capture = null;
+    render();
+  });
+}
+
+resetBtn.addEventListener('click', () => {
+  capture = null;
+  inputBindings.reset();
+});
+
+inputBindings.onChange(render);
+render();
@@ -0,0 +1,99 @@
+// Gamepad Input - Polls the Gamepad API and maps it onto the button bitmask
+//
+// Buttons are mapped through the user bindings in input-bindings.ts (by
+// default the "standard" layout, https://w3c.github.io/gamepad/#remapping:
+// d-pad, bottom/right face buttons and start). The left stick always drives
+// UP/DOWN/LEFT/RIGHT. The first connected gamepad feeds player 1, the second
+// one player 2.
+
+import { inputBindings } from './input-bindings.js';
+
+const STICK_UP = 1 << 0;
+const STICK_DOWN = 1 << 1;
+const STICK_LEFT = 1 << 2;
+const STICK_RIGHT = 1 << 3;
+
+const DEADZONE_STORAGE_KEY = 'tinyforge.gamepadDeadzone';
+const DEFAULT_DEADZONE = 0.5;
+
+class GamepadInput {
+  #deadzone = DEFAULT_DEADZONE;
+
+  constructor() {
+    const stored = parseFloat(localStorage.getItem(DEADZONE_STORAGE_KEY));
+    if (stored >= 0 && stored < 1) {
+      this.#deadzone = stored;
+    }
+  }
+
+  /**
+   * Get the stick deadzone (0-1, fraction of full deflection)
+   * @returns {number}
+   */
+  getDeadzone() {
+    return this.#deadzone;
+  }
+
+  /**
+   * Set the stick deadzone and persist it
+   * @param value - Fraction of full deflection ignored around the center (0-1)
+   */
+  setDeadzone(value) {
+    this.#deadzone = Math.max(0, Math.min(0.95, value));
+    localStorage.setItem(DEADZONE_STORAGE_KEY, String(this.#deadzone));
+  }
+
+  /**
+   * Get number of connected gamepads
+   * @returns {number}
+   */
+  getConnectedCount() {
+    return this.#gamepads().length;
+  }
+
+  /**
+   * Read the button bitmask of the gamepad assigned to a player
+   * @param player - Controller port (0 = player 1, 1 = player 2)
+   * @returns {number} Bitmask, 0 if no gamepad is assigned to the player
+   */
+  poll(player) {
+    const pad = this.#gamepads()[player];
+    return pad ? this.#readGamepad(pad, player) : 0;
+  }
+
+  /**
+   * Get the indices of all buttons held on any connected gamepad
+   * Used to capture new bindings
+   * @returns {number[]}
+   */
+  getPressedButtons() {
+    const pressed = [];
+    for (const pad of this.#gamepads()) {
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed && !pressed.includes(index)) pressed.push(index);
+      });
+    }
+    return pressed;
+  }
+
+  #readGamepad(pad, player) {
+    let mask = inputBindings.gamepadMask(player, pad.buttons);
+
+    // Left stick acts as a d-pad once it leaves the deadzone on an axis
+    const x = pad.axes[0] || 0;
+    const y = pad.axes[1] || 0;
+    if (x < -this.#deadzone) mask |= STICK_LEFT;
+    if (x > this.#deadzone) mask |= STICK_RIGHT;
+    if (y < -this.#deadzone) mask |= STICK_UP;
+    if (y > this.#deadzone) mask |= STICK_DOWN;
+
+    return mask;
+  }
+
+  #gamepads() {
+    if (!navigator.getGamepads) return [];
+    return Array.from(navigator.getGamepads()).filter(pad => pad && pad.connected);
+  }
+}
+
+export const gamepadInput = new GamepadInput();
@@ -0,0 +1,79 @@
+// IndexedDB Store - Minimal promise wrapper around a single object store
+// Shared by host features that persist binary data per cartridge
+
+const DB_NAME = 'tinyforge';
+const DB_VERSION = 2;
+
+/** Object stores created in the host database */
+const STORE_NAMES = ['save-states', 'save-ram'];
+
+let dbPromise = null;
+
+/**
+ * Open (and upgrade if needed) the host database
+ * @returns Promise that resolves to IDBDatabase
+ */
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORE_NAMES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Key/value access to one object store of the host database
+ */
+export class IdbStore {
+  #storeName;
+
+  constructor(storeName) {
+    this.#storeName = storeName;
+  }
+
+  /**
+   * Read a value by key
+   * @returns Promise that resolves to the stored value, or undefined
+   */
+  async get(key) {
+    return this.#request('readonly', store => store.get(key));
+  }
+
+  /**
+   * Write a value by key (overwrites existing value)
+   */
+  async put(key, value) {
+    await this.#request('readwrite', store => store.put(value, key));
+  }
+
+  /**
+   * Delete a value by key
+   */
+  async delete(key) {
+    await this.#request('readwrite', store => store.delete(key));
+  }
+
+  async #request(mode, action) {
+    const db = await openDatabase();
+    return new Promise<unknown>((resolve, reject) => {
+      const tx = db.transaction(this.#storeName, mode);
+      const request = action(tx.objectStore(this.#storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
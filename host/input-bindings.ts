@@ -0,0 +1,217 @@
+// Input Bindings - User-remappable keyboard and gamepad bindings
+//
+// Every button of every player can be bound to any number of keyboard codes
+// (KeyboardEvent.code) and gamepad buttons ("standard" layout indices).
+// Bindings are persisted in localStorage; the left stick always acts as the
+// d-pad and is not remappable.
+
+/** Button names and bits, matching the Button enum in sdk/input.ts */
+export const BUTTONS = [
+  { name: 'UP', bit: 1 << 0 },
+  { name: 'DOWN', bit: 1 << 1 },
+  { name: 'LEFT', bit: 1 << 2 },
+  { name: 'RIGHT', bit: 1 << 3 },
+  { name: 'A', bit: 1 << 4 },
+  { name: 'B', bit: 1 << 5 },
+  { name: 'START', bit: 1 << 6 }
+];
+
+/** Standard layout gamepad button names, used for display */
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Select', 'Start',
+  'L3', 'R3', 'Up', 'Down', 'Left', 'Right', 'Home'
+];
+
+const STANDARD_GAMEPAD = {
+  UP: [12],
+  DOWN: [13],
+  LEFT: [14],
+  RIGHT: [15],
+  A: [0],
+  B: [1],
+  START: [9]
+};
+
+/** Default bindings per player (F is taken by the fullscreen shortcut) */
+const DEFAULT_BINDINGS = [
+  {
+    keys: {
+      UP: ['ArrowUp'],
+      DOWN: ['ArrowDown'],
+      LEFT: ['ArrowLeft'],
+      RIGHT: ['ArrowRight'],
+      A: ['KeyZ'],
+      B: ['KeyX'],
+      START: ['Enter']
+    },
+    gamepad: STANDARD_GAMEPAD
+  },
+  {
+    keys: {
+      UP: ['KeyW'],
+      DOWN: ['KeyS'],
+      LEFT: ['KeyA'],
+      RIGHT: ['KeyD'],
+      A: ['KeyG'],
+      B: ['KeyH'],
+      START: ['Space']
+    },
+    gamepad: STANDARD_GAMEPAD
+  }
+];
+
+const BINDINGS_STORAGE_KEY = 'tinyforge.inputBindings';
+
+class InputBindings {
+  #bindings = cloneBindings(DEFAULT_BINDINGS);
+  #listeners = [];
+
+  constructor() {
+    try {
+      const stored = JSON.parse(localStorage.getItem(BINDINGS_STORAGE_KEY));
+      if (isValidBindings(stored)) {
+        this.#bindings = stored;
+      }
+    } catch (e) {
+      console.warn('Ignoring invalid stored input bindings:', e);
+    }
+  }
+
+  /**
+   * Get the number of players that can be bound
+   * @returns {number}
+   */
+  getPlayerCount() {
+    return this.#bindings.length;
+  }
+
+  /**
+   * Get the bindings of one button
+   * @param player - Controller port (0 = player 1, 1 = player 2)
+   * @param button - Button name from BUTTONS
+   * @returns {keys: string[], gamepad: number[]}
+   */
+  getBindings(player, button) {
+    const bindings = this.#bindings[player];
+    return { keys: bindings.keys[button], gamepad: bindings.gamepad[button] };
+  }
+
+  /**
+   * Get the buttons a keyboard code is bound to
+   * @param player - Controller port
+   * @param code - KeyboardEvent.code
+   * @returns {number} Button bitmask (0 if unbound)
+   */
+  keyMask(player, code) {
+    const keys = this.#bindings[player].keys;
+    let mask = 0;
+    for (const { name, bit } of BUTTONS) {
+      if (keys[name].includes(code)) mask |= bit;
+    }
+    return mask;
+  }
+
+  /**
+   * Get the buttons held on a gamepad
+   * @param player - Controller port
+   * @param buttons - Gamepad.buttons
+   * @returns {number} Button bitmask
+   */
+  gamepadMask(player, buttons) {
+    const gamepad = this.#bindings[player].gamepad;
+    let mask = 0;
+    for (const { name, bit } of BUTTONS) {
+      for (const index of gamepad[name]) {
+        if (buttons[index] && buttons[index].pressed) mask |= bit;
+      }
+    }
+    return mask;
+  }
+
+  /**
+   * Check if a keyboard code is bound to a button of any player
+   * @param code - KeyboardEvent.code
+   * @returns {boolean}
+   */
+  isKeyBound(code) {
+    for (let player = 0; player < this.#bindings.length; player++) {
+      if (this.keyMask(player, code)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Bind a keyboard code or gamepad button to a button
+   * @param player - Controller port
+   * @param button - Button name from BUTTONS
+   * @param kind - 'keys' or 'gamepad'
+   * @param value - KeyboardEvent.code or gamepad button index
+   */
+  addBinding(player, button, kind, value) {
+    const list = this.#bindings[player][kind][button];
+    if (list.includes(value)) return;
+    list.push(value);
+    this.#changed();
+  }
+
+  /**
+   * Remove a keyboard code or gamepad button from a button
+   * @param player - Controller port
+   * @param button - Button name from BUTTONS
+   * @param kind - 'keys' or 'gamepad'
+   * @param value - KeyboardEvent.code or gamepad button index
+   */
+  removeBinding(player, button, kind, value) {
+    const bindings = this.#bindings[player][kind];
+    bindings[button] = bindings[button].filter(v => v !== value);
+    this.#changed();
+  }
+
+  /**
+   * Restore the default bindings of all players
+   */
+  reset() {
+    this.#bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.#changed();
+  }
+
+  /**
+   * Register a callback invoked whenever the bindings change
+   */
+  onChange(listener) {
+    this.#listeners.push(listener);
+  }
+
+  #changed() {
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(this.#bindings));
+    for (const listener of this.#listeners) listener();
+  }
+}
+
+/**
+ * Format a keyboard code for display ('KeyZ' -> 'Z', 'ArrowUp' -> 'Up')
+ */
+export function formatKeyCode(code) {
+  return code.replace(/^(Key|Digit|Arrow)/, '');
+}
+
+/**
+ * Format a gamepad button index for display
+ */
+export function formatGamepadButton(index) {
+  return `Pad ${GAMEPAD_BUTTON_NAMES[index] ?? index}`;
+}
+
+function cloneBindings(bindings) {
+  return JSON.parse(JSON.stringify(bindings));
+}
+
+// Stored bindings must cover every player and button of the current layout
+function isValidBindings(bindings) {
+  return Array.isArray(bindings) &&
+    bindings.length === DEFAULT_BINDINGS.length &&
+    bindings.every(player => player && BUTTONS.every(({ name }) =>
+      Array.isArray(player.keys?.[name]) && Array.isArray(player.gamepad?.[name])));
+}
+
+export const inputBindings = new InputBindings();
@@ -0,0 +1,277 @@
+// Input Recorder - Records per-tick input and replays it deterministically
+//
+// A recording starts from a save state snapshot (see save-states.ts) and
+// stores the input written to INPUT_ADDR/MOUSE_ADDR for every tick after it.
+// Replaying restores the snapshot and feeds the recorded input back one tick
+// at a time instead of live input, which reproduces the session exactly as
+// long as the cartridge keeps its state in RAM.
+//
+// Replay file format (.tfr, little-endian):
+//   +0:  char[4] magic       - "TFRP"
+//   +4:  u8      version     - REPLAY_VERSION
+//   +5:  u8      nameLength  - Cartridge name length in bytes
+//   +6:  u8[n]   name        - Cartridge name (UTF-8)
+//        u8[32]  buildHash   - SHA-256 of the cartridge binary
+//        u8      prevInputMask, u8 prevP2InputMask, u8 prevMouseButtons, f64 acc
+//        u32     tick        - Tick counter of the start snapshot
+//        u8[8]   input       - Registers at INPUT_ADDR
+//        u8[8]   mouse       - Registers at MOUSE_ADDR
+//        u32     registersSize, u8[registersSize] registers - Hardware registers at REGISTERS_ADDR
+//        u32     ramSize, u32 encodedSize, u8[encodedSize] ram (zero-RLE)
+//        u32     tickCount, u32 runCount
+//        runs:   u16 count, u8 buttons, u8 p2Buttons, i16 mouseX, i16 mouseY, u8 mouseButtons
+//
+// Consecutive identical ticks are stored as a single run, so idle stretches
+// cost 9 bytes regardless of their length.
+
+import { ByteReader, ByteWriter, rleDecode, rleEncode } from './binary-codec.js';
+
+const REPLAY_MAGIC = 'TFRP';
+const REPLAY_VERSION = 4;
+const MAX_RUN_LENGTH = 0xffff;
+
+class InputRecorder {
+  #mode = 'idle'; // 'idle' | 'recording' | 'playing'
+  #recording = null;
+  #playbackTick = 0;
+
+  /**
+   * Get the last recorded or imported recording
+   */
+  getRecording() {
+    return this.#recording;
+  }
+
+  isRecording() {
+    return this.#mode === 'recording';
+  }
+
+  isPlaying() {
+    return this.#mode === 'playing';
+  }
+
+  /**
+   * Get a short status string for the devtools panel
+   */
+  getStatus() {
+    if (this.#mode === 'recording') {
+      return `REC ${this.#recording.ticks.length}`;
+    }
+    if (this.#mode === 'playing') {
+      return `PLAY ${this.#playbackTick}/${this.#recording.ticks.length}`;
+    }
+    return this.#recording ? `${this.#recording.ticks.length} ticks` : 'none';
+  }
+
+  /**
+   * Start a new recording from a save state snapshot
+   */
+  startRecording(snapshot) {
+    this.#recording = {
+      cartridge: snapshot.cartridge,
+      buildHash: snapshot.buildHash,
+      start: snapshot,
+      ticks: []
+    };
+    this.#mode = 'recording';
+  }
+
+  /**
+   * Start replaying the current recording from its first tick
+   * The caller is responsible for restoring recording.start first
+   */
+  startPlayback() {
+    if (!this.#recording) return;
+    this.#playbackTick = 0;
+    this.#mode = 'playing';
+  }
+
+  /**
+   * Stop recording or playback
+   * @returns The mode that was stopped ('idle' if nothing was running)
+   */
+  stop() {
+    const mode = this.#mode;
+    this.#mode = 'idle';
+    return mode;
+  }
+
+  /**
+   * Store the input of one tick (no-op unless recording)
+   * @param tick - {buttons, p2Buttons, mouseX, mouseY, mouseButtons}
+   */
+  recordTick(tick) {
+    if (this.#mode !== 'recording') return;
+    this.#recording.ticks.push({
+      buttons: tick.buttons,
+      p2Buttons: tick.p2Buttons,
+      mouseX: tick.mouseX,
+      mouseY: tick.mouseY,
+      mouseButtons: tick.mouseButtons
+    });
+  }
+
+  /**
+   * Get the input of the next replayed tick
+   * @returns {buttons, p2Buttons, mouseX, mouseY, mouseButtons}, or null when the replay has ended
+   */
+  nextTick() {
+    if (this.#mode !== 'playing') return null;
+    if (this.#playbackTick >= this.#recording.ticks.length) {
+      this.#mode = 'idle';
+      return null;
+    }
+    return this.#recording.ticks[this.#playbackTick++];
+  }
+
+  /**
+   * Serialize the current recording to the replay file format
+   * @returns Uint8Array
+   */
+  exportRecording() {
+    const recording = this.#recording;
+    const start = recording.start;
+    const out = new ByteWriter(4096);
+
+    for (const ch of REPLAY_MAGIC) out.writeU8(ch.charCodeAt(0));
+    out.writeU8(REPLAY_VERSION);
+    const name = new TextEncoder().encode(recording.cartridge);
+    out.writeU8(name.length);
+    out.writeBytes(name);
+    out.writeBytes(hexToBytes(recording.buildHash));
+
+    out.writeU8(start.prevInputMask);
+    out.writeU8(start.prevP2InputMask);
+    out.writeU8(start.prevMouseButtons);
+    out.writeF64(start.acc);
+    out.writeU32(start.tick);
+    out.writeBytes(start.input);
+    out.writeBytes(start.mouse);
+    out.writeU32(start.registers.length);
+    out.writeBytes(start.registers);
+
+    const ram = rleEncode(start.ram);
+    out.writeU32(start.ram.length);
+    out.writeU32(ram.length);
+    out.writeBytes(ram);
+
+    const runs = [];
+    for (const tick of recording.ticks) {
+      const run = runs[runs.length - 1];
+      if (run && run.count < MAX_RUN_LENGTH && sameTick(run.tick, tick)) {
+        run.count++;
+      } else {
+        runs.push({ count: 1, tick });
+      }
+    }
+
+    out.writeU32(recording.ticks.length);
+    out.writeU32(runs.length);
+    for (const { count, tick } of runs) {
+      out.writeU16(count);
+      out.writeU8(tick.buttons);
+      out.writeU8(tick.p2Buttons);
+      out.writeI16(tick.mouseX);
+      out.writeI16(tick.mouseY);
+      out.writeU8(tick.mouseButtons);
+    }
+
+    return out.toBytes();
+  }
+
+  /**
+   * Parse a replay file and make it the current recording
+   * Stops any running recording or playback
+   * @param bytes - Uint8Array with replay file contents
+   * @returns The imported recording
+   */
+  importRecording(bytes) {
+    const reader = new ByteReader(bytes);
+
+    const magic = String.fromCharCode(...reader.readBytes(4));
+    if (magic !== REPLAY_MAGIC) {
+      throw new Error('Not a TinyForge replay file');
+    }
+    const version = reader.readU8();
+    if (version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version ${version}`);
+    }
+
+    const cartridge = new TextDecoder().decode(reader.readBytes(reader.readU8()));
+    const buildHash = bytesToHex(reader.readBytes(32));
+
+    const prevInputMask = reader.readU8();
+    const prevP2InputMask = reader.readU8();
+    const prevMouseButtons = reader.readU8();
+    const acc = reader.readF64();
+    const tick = reader.readU32();
+    const input = reader.readBytes(8);
+    const mouse = reader.readBytes(8);
+    const registers = reader.readBytes(reader.readU32());
+
+    const ramSize = reader.readU32();
+    const ram = rleDecode(reader.readBytes(reader.readU32()), new Uint8Array(ramSize));
+
+    const tickCount = reader.readU32();
+    const runCount = reader.readU32();
+    const ticks = [];
+    for (let i = 0; i < runCount; i++) {
+      const count = reader.readU16();
+      const tick = {
+        buttons: reader.readU8(),
+        p2Buttons: reader.readU8(),
+        mouseX: reader.readI16(),
+        mouseY: reader.readI16(),
+        mouseButtons: reader.readU8()
+      };
+      for (let j = 0; j < count; j++) ticks.push(tick);
+    }
+    if (ticks.length !== tickCount) {
+      throw new Error(`Replay tick count mismatch (${ticks.length} vs ${tickCount})`);
+    }
+
+    this.#mode = 'idle';
+    this.#recording = {
+      cartridge,
+      buildHash,
+      start: {
+        cartridge,
+        buildHash,
+        createdAt: Date.now(),
+        ram,
+        registers,
+        input,
+        mouse,
+        prevInputMask,
+        prevP2InputMask,
+        prevMouseButtons,
+        acc,
+        tick
+      },
+      ticks
+    };
+    return this.#recording;
+  }
+}
+
+function sameTick(a, b) {
+  return a.buttons === b.buttons &&
+    a.p2Buttons === b.p2Buttons &&
+    a.mouseX === b.mouseX &&
+    a.mouseY === b.mouseY &&
+    a.mouseButtons === b.mouseButtons;
+}
+
+function hexToBytes(hex) {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes) {
+  return Array.from(bytes, (b: number) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const inputRecorder = new InputRecorder();
@@ -1,12 +1,18 @@
-// @ts-ignore - No type definitions available for @assemblyscript/loader
-import * as loader from '@assemblyscript/loader';
 import { addConsoleEntry } from './console-panel.js';
 import { audioManager } from './audio-manager.js';
 import { spriteManager } from './sprite-manager.js';
-import { INPUT_ADDR, MOUSE_ADDR } from '../memory-map.js';
+import { mapManager } from './map-manager.js';
+import { saveStateManager, SAVE_SLOT_COUNT } from './save-states.js';
+import { gamepadInput } from './gamepad-input.js';
+import { inputBindings } from './input-bindings.js';
+import { isCapturingBinding } from './controls-panel.js';
+import { toggleMasterMute } from './mixer-panel.js';
+import { AssetLoader } from './asset-loader.js';
+import { watchdog } from './watchdog.js';
+import { SPRITE_METADATA_ADDR, SPRITE_DATA_ADDR, SPRITE_DATA_SIZE, MAP_ADDR, MAP_SIZE } from '../memory-map.js';
 
 const canvas = document.getElementById("screen") as HTMLCanvasElement;
-const ctx = canvas.getContext("2d", { alpha: false });
+const ctx = canvas.getContext("bitmaprenderer");
 
 const WIDTH = 320;
 const HEIGHT = 240;
@@ -14,21 +20,38 @@ const HEIGHT = 240;
 let hasAborted = false;
 let animationFrameId = null;
 
-const memory = new WebAssembly.Memory({
-  initial: 16,   // 16 × 64 KB = 1 MB
-  maximum: 16    // fixed, no growth
-});
+// Simulation speed multiplier, Infinity for turbo (see cartridge-worker.ts)
+let simulationSpeed = 1;
+
+// The cartridge runs in a worker that owns the console memory (see cartridge-worker.ts)
+// It is replaced when the watchdog terminates a stuck cartridge
+let worker = null;
+
+// Main thread copy of console memory for tools, refreshed from the worker on request
+// Sprites and maps are decoded into it before being sent to the worker
+const memoryMirror = {
+  buffer: new ArrayBuffer(16 * 64 * 1024),
+  write(addr, value) {
+    new Uint8Array(this.buffer)[addr] = value;
+    worker.postMessage({ type: 'write-memory', addr, value });
+  },
+  // Copy a range of worker memory into the mirror, resolves once it arrived
+  fetch(addr, size) {
+    return new Promise<void>(resolve => {
+      pendingMemoryReads.push(resolve);
+      worker.postMessage({ type: 'read-memory', addr, size });
+    });
+  }
+};
 
-// Initialize sprite manager with memory
-spriteManager.init(memory);
+// Resolvers of the read-memory requests in flight, answered in order
+let pendingMemoryReads = [];
 
-// Create framebuffer views (persistent across game loads)
-const fb = new Uint8ClampedArray(memory.buffer, 0, WIDTH * HEIGHT * 4);
-const fb32 = new Uint32Array(memory.buffer, 0, WIDTH * HEIGHT);
-const image = new ImageData(fb, WIDTH, HEIGHT);
+spriteManager.init(memoryMirror);
+mapManager.init(memoryMirror);
 
 // Allow external access to memory for tools
-(window as any).getMemory = () => memory;
+(window as any).getMemory = () => memoryMirror;
 
 // Register service worker for PWA
 if ('serviceWorker' in navigator) {
@@ -177,114 +200,203 @@ window.matchMedia('(display-mode: standalone)').addEventListener('change', handl
 
 // Open memory viewer in new window
 function openMemoryViewer() {
-  const viewer = window.open('memory-viewer.html', 'TinyForge Memory Viewer', 
+  const memoryViewer = window.open('memory-viewer.html', 'TinyForge Memory Viewer', 
     'width=1200,height=800,menubar=no,toolbar=no');
-  if (!viewer) {
+  if (!memoryViewer) {
     addConsoleEntry('ERROR', 'Failed to open memory viewer. Please allow popups.');
   }
 }
 
-// WASM module state
-let wasmExports;
-let init, update, draw;
+// True once a cartridge was instantiated by the worker
+let isLoaded = false;
+
+// True while the worker memory holds no game state (new worker), hot reload must run init()
+let isMemoryEmpty = true;
+
+// SHA-256 of the loaded cartridge binary (identifies the build for save states)
+let cartridgeHash = null;
 
 // Load a game cartridge
 async function loadGame(gameName, { skipInit = false } = {}) {
   // Stop current game loop
-  if (animationFrameId) {
-    cancelAnimationFrame(animationFrameId);
-    animationFrameId = null;
-  }
+  stopLoop();
+  isLoaded = false;
   
-  // Stop any playing music
+  // Stop any playing music, sound effects and synthesizer notes
   audioManager.stopMusic();
-  
+  audioManager.stopAllSfx();
+  audioManager.resetSynth();
+
   hasAborted = false;
   addConsoleEntry('LOG', `Loading ${gameName}...`);
   
   try {
-    const wasm = await loader.instantiateStreaming(
-      fetch(`../cartridges/${gameName}.wasm`),
-      {
-        env: {
-          memory,
-          abort: (msg, file, line, column) => {
-            // See AS __getString implementation in wasm-string.js
-            hasAborted = true;
-            msg = wasmExports.__getString(msg);
-            file = wasmExports.__getString(file);
-            const errorMsg = `Abort at ${file} ${line}:${column} => ${msg}`;
-            addConsoleEntry('ABORT', errorMsg);
-            console.error("WASM abort:", { msg, file, line, column });
-          },
-          trace: (msg) => {
-            addConsoleEntry('TRACE', msg);
-          },
-          // Fast framebuffer clear using native JS fill()
-          clearFramebuffer: (color) => {
-            fb32.fill(color | 0xFF000000);
-          },
-          // Console logging functions
-          'console.log': (msg) => {
-            addConsoleEntry('LOG', wasmExports.__getString(msg));
-          },
-          'console.warn': (msg) => {
-            addConsoleEntry('WARN', wasmExports.__getString(msg));
-          },
-          'console.error': (msg) => {
-            addConsoleEntry('ERROR', wasmExports.__getString(msg));
-          },
-          // Audio functions
-          'audio.playSfx': (id, volume) => {
-            audioManager.playSfx(id, volume);
-          },
-          'audio.playMusic': (id, volume) => {
-            audioManager.playMusic(id, volume);
-          },
-          'audio.stopMusic': () => {
-            audioManager.stopMusic();
-          }
-        }
-      }
-    );
-
-    // Capture exports for use in import functions
-    wasmExports = wasm.exports;
-
-    // Validate required exports
-    const required = ['init', 'update', 'draw'];
-    const missing = required.filter(name => !wasm.instance.exports[name]);
-    
-    if (missing.length > 0) {
-      throw new Error(`Cartridge missing required exports: ${missing.join(', ')}`);
-    }
-    
-    // Assign lifecycle functions
-    init = wasm.instance.exports.init;
-    update = wasm.instance.exports.update;
-    draw = wasm.instance.exports.draw;
-    
-    // Initialize the game (skip if hot reloading to preserve state)
-    if (!skipInit) {
-      init();
-      addConsoleEntry('LOG', `${gameName} loaded successfully`);
-    } else {
-      addConsoleEntry('LOG', `${gameName} hot reloaded (memory preserved)`);
-    }
-    
-    // Start game loop
-    last = performance.now();
-    acc = 0;
-    inputMask = 0;
-    prevInputMask = 0;
-    requestAnimationFrame(frame);
-    
+    const wasmBytes = await AssetLoader.fetchBinary(`../cartridges/${gameName}.wasm`);
+    cartridgeHash = await AssetLoader.hashBinary(wasmBytes);
+    worker.postMessage({
+      type: 'load',
+      name: gameName,
+      bytes: wasmBytes,
+      hash: cartridgeHash,
+      skipInit
+    }, [wasmBytes]);
   } catch (e) {
     addConsoleEntry('ERROR', `Failed to load ${gameName}: ${e.message}`);
     hasAborted = true;
   }
 }
 
+// The worker finished instantiating a cartridge
+function onLoaded(ok) {
+  if (!ok) return;
+  isLoaded = true;
+  isMemoryEmpty = false;
+
+  // Start game loop
+  inputMask = 0;
+  p2InputMask = 0;
+  startLoop();
+
+  refreshSaveSlots();
+}
+
+// Start requesting frames from the worker
+function startLoop() {
+  if (animationFrameId || hasAborted || isPaused || document.hidden) return;
+  resetClock = true;
+  animationFrameId = requestAnimationFrame(frame);
+}
+
+function stopLoop() {
+  if (animationFrameId) {
+    cancelAnimationFrame(animationFrameId);
+    animationFrameId = null;
+  }
+}
+
+// === Worker Messages ===
+
+// Spawn a cartridge worker, it has no cartridge until the next loadGame()
+function createWorker() {
+  // Reads a terminated worker will never answer leave the mirror as it was
+  pendingMemoryReads.forEach(resolve => resolve());
+  pendingMemoryReads = [];
+  const w = new Worker(new URL('./cartridge-worker.js', import.meta.url), { type: 'module' });
+  w.addEventListener('message', (e) => {
+    // Ignore anything still queued by a terminated worker
+    if (w === worker) onWorkerMessage(e.data);
+  });
+  w.addEventListener('error', (e) => {
+    addConsoleEntry('ERROR', `Cartridge worker error: ${e.message}`);
+  });
+  w.postMessage({ type: 'set-speed', speed: simulationSpeed });
+  w.postMessage({ type: 'music-timings', timings: audioManager.getMusicTimings() });
+  return w;
+}
+
+// True once decoded sprites and maps were staged in the memory mirror
+let assetsReady = false;
+
+// Hand the decoded sprite and map regions to the worker
+function sendAssets() {
+  const sprites = new Uint8Array(memoryMirror.buffer, SPRITE_METADATA_ADDR, SPRITE_DATA_ADDR + SPRITE_DATA_SIZE - SPRITE_METADATA_ADDR);
+  worker.postMessage({ type: 'assets', offset: SPRITE_METADATA_ADDR, bytes: sprites });
+  worker.postMessage({ type: 'assets', offset: MAP_ADDR, bytes: new Uint8Array(memoryMirror.buffer, MAP_ADDR, MAP_SIZE) });
+}
+
+function onWorkerMessage(msg) {
+  switch (msg.type) {
+    case 'log':
+      addConsoleEntry(msg.entryType, msg.message);
+      break;
+    case 'audio':
+      audioManager[msg.method](...msg.args);
+      break;
+    case 'synth':
+      for (const registers of msg.ticks) audioManager.updateSynth(registers);
+      break;
+    case 'loaded':
+      onLoaded(msg.ok);
+      break;
+    case 'phase':
+      watchdog.setPhase(msg.phase, msg.startedAt);
+      break;
+    case 'present':
+      ctx.transferFromImageBitmap(msg.bitmap);
+      tickEl.textContent = String(msg.tick);
+      break;
+    case 'frame-done':
+      frameInFlight = false;
+      if (msg.stats) updateDevTools(msg.stats);
+      break;
+    case 'aborted':
+      hasAborted = msg.aborted;
+      // A restored state can recover from an abort
+      if (hasAborted) stopLoop();
+      else if (isLoaded) startLoop();
+      break;
+    case 'slots-changed':
+      refreshSaveSlots();
+      break;
+    case 'recording':
+      downloadRecording(msg);
+      break;
+    case 'audio-log':
+      downloadAudioLog(msg);
+      break;
+    case 'memory':
+      new Uint8Array(memoryMirror.buffer).set(msg.bytes, msg.addr);
+      pendingMemoryReads.shift()?.();
+      break;
+  }
+}
+
+worker = createWorker();
+
+// === Watchdog ===
+
+// A cartridge call that outlives the budget can only be stopped by
+// terminating its worker; the cartridge then has to be reloaded
+setInterval(() => {
+  const phase = watchdog.getExpiredPhase();
+  if (!phase) return;
+
+  worker.terminate();
+  watchdog.reset();
+  stopLoop();
+  audioManager.stopMusic();
+  audioManager.stopAllSfx();
+  audioManager.resetSynth();
+  isLoaded = false;
+  hasAborted = true;
+  frameInFlight = false;
+  isRewinding = false;
+  addConsoleEntry('ERROR', `Watchdog: ${currentGame} ${phase}() ran longer than ${watchdog.getBudget()} ms and was terminated. Press R to reload.`);
+
+  worker = createWorker();
+  worker.postMessage({ type: 'set-audio-log', enabled: isAudioLogEnabled });
+  isMemoryEmpty = true;
+  if (assetsReady) sendAssets();
+}, 100);
+
+const watchdogInput = document.getElementById('watchdog-budget') as HTMLInputElement;
+const watchdogValueEl = document.getElementById('watchdog-budget-value');
+watchdogInput.value = String(watchdog.getBudget());
+watchdogValueEl.textContent = String(watchdog.getBudget());
+watchdogInput.addEventListener('input', () => {
+  watchdog.setBudget(parseInt(watchdogInput.value, 10));
+  watchdogValueEl.textContent = String(watchdog.getBudget());
+});
+
+const polyphonyInput = document.getElementById('sfx-polyphony') as HTMLInputElement;
+const polyphonyValueEl = document.getElementById('sfx-polyphony-value');
+polyphonyInput.value = String(audioManager.getPolyphony());
+polyphonyValueEl.textContent = String(audioManager.getPolyphony());
+polyphonyInput.addEventListener('input', () => {
+  audioManager.setPolyphony(parseInt(polyphonyInput.value, 10));
+  polyphonyValueEl.textContent = String(audioManager.getPolyphony());
+});
+
 // Game selector UI
 const gameSelect = document.getElementById('game-select') as HTMLSelectElement;
 
@@ -297,7 +409,7 @@ let watchInterval = null;
 
 function hotReload() {
   addConsoleEntry('LOG', 'Hot reloading cartridge...');
-  loadGame(currentGame, { skipInit: true });
+  loadGame(currentGame, { skipInit: !isMemoryEmpty });
 }
 
 async function checkWasmUpdate() {
@@ -333,18 +445,27 @@ function stopWasmWatch() {
   }
 }
 
-// Load audio and sprites, then load the game
+// Load audio, sprites and maps, then load the game
 Promise.all([
   audioManager.loadAudio().then(() => {
     const sfxCount = audioManager.getSfxCount();
     const musicCount = audioManager.getMusicCount();
     const size = audioManager.getDataSize();
     addConsoleEntry('LOG', `Audio system initialized: ${sfxCount} SFX, ${musicCount} music tracks, ${(size / 1024).toFixed(1)} KB`);
+    worker.postMessage({ type: 'music-timings', timings: audioManager.getMusicTimings() });
   }),
   spriteManager.loadSprites().then(() => {
     const count = spriteManager.getSpriteCount();
     const size = spriteManager.getDataSize();
     addConsoleEntry('LOG', `Sprite system initialized: ${count} sprites, ${(size / 1024).toFixed(1)} KB`);
+    // Tilesets refer to sprites, so maps load after them
+    return mapManager.loadMaps();
+  }).then(() => {
+    const count = mapManager.getMapCount();
+    const size = mapManager.getDataSize();
+    addConsoleEntry('LOG', `Map system initialized: ${count} maps, ${(size / 1024).toFixed(1)} KB`);
+    assetsReady = true;
+    sendAssets();
   })
 ]).then(() => {
   // Load game after all assets are ready
@@ -365,14 +486,21 @@ gameSelect.addEventListener('change', () => {
   }
 });
 
-// Restart button - resets game state
-const restartBtn = document.getElementById('restart-game');
-restartBtn.addEventListener('click', () => {
-  if (init) {
-    init();
-    addConsoleEntry('LOG', 'Game restarted');
+// Reset game state
+// Reloads the cartridge if the watchdog terminated it
+function restartGame() {
+  if (isLoaded) {
+    audioManager.stopAllSfx();
+    audioManager.resetSynth();
+    worker.postMessage({ type: 'restart' });
+  } else if (hasAborted) {
+    loadGame(currentGame);
   }
-});
+}
+
+// Restart button
+const restartBtn = document.getElementById('restart-game');
+restartBtn.addEventListener('click', restartGame);
 
 // Toggle pause state
 function togglePause() {
@@ -380,24 +508,18 @@ function togglePause() {
   isPaused = !isPaused;
   pauseBtn.textContent = isPaused ? 'Resume (P)' : 'Pause (P)';
   
+  updateAudioSuspended();
+
   if (isPaused) {
     addConsoleEntry('LOG', 'Game paused');
     // Stop animation loop
-    if (animationFrameId) {
-      cancelAnimationFrame(animationFrameId);
-      animationFrameId = null;
-    }
+    stopLoop();
   } else {
     addConsoleEntry('LOG', 'Game resumed');
     // Restart animation loop
-    if (!animationFrameId && !hasAborted) {
-      const now = performance.now();
-      last = now;
-      acc = 0;
-      lastFpsUpdate = now;
-      frameCount = 0;
-      animationFrameId = requestAnimationFrame(frame);
-    }
+    lastFpsUpdate = performance.now();
+    frameCount = 0;
+    if (isLoaded) startLoop();
   }
 }
 
@@ -405,10 +527,56 @@ function togglePause() {
 const pauseBtn = document.getElementById('pause-game') as HTMLButtonElement;
 pauseBtn.addEventListener('click', togglePause);
 
+// Speed selector
+const speedSelect = document.getElementById('speed-select') as HTMLSelectElement;
+speedSelect.addEventListener('change', () => {
+  simulationSpeed = speedSelect.value === 'turbo' ? Infinity : parseFloat(speedSelect.value);
+  worker.postMessage({ type: 'set-speed', speed: simulationSpeed });
+  addConsoleEntry('LOG', `Simulation speed: ${speedSelect.selectedOptions[0].text}`);
+});
+
+// === Frame Step ===
+
+// Each step runs update() with the input held when it was requested, then draws once
+// Stepping pauses the game so the result stays on screen
+const tickEl = document.getElementById('tick');
+const stepCountInput = document.getElementById('step-count') as HTMLInputElement;
+const runToTickInput = document.getElementById('run-to-tick') as HTMLInputElement;
+
+function stepTicks(count) {
+  if (!isLoaded || hasAborted || !(count > 0)) return;
+  if (!isPaused) togglePause();
+  worker.postMessage({ type: 'step', count, input: readInput() });
+}
+
+function runToTick(tick) {
+  if (!isLoaded || hasAborted || !(tick >= 0)) return;
+  if (!isPaused) togglePause();
+  worker.postMessage({ type: 'run-to', tick, input: readInput() });
+}
+
+document.getElementById('step-tick').addEventListener('click', () => stepTicks(1));
+document.getElementById('step-ticks').addEventListener('click', () => {
+  stepTicks(parseInt(stepCountInput.value, 10));
+});
+document.getElementById('run-to').addEventListener('click', () => {
+  runToTick(parseInt(runToTickInput.value, 10));
+});
+
 // Memory viewer button
 const memoryViewerBtn = document.getElementById('open-memory-viewer');
 memoryViewerBtn.addEventListener('click', openMemoryViewer);
 
+// SFX editor button
+const sfxEditorBtn = document.getElementById('open-sfx-editor');
+sfxEditorBtn.addEventListener('click', () => {
+  const editor = window.open('sfx-editor.html', 'TinyForge SFX Editor',
+    'width=1100,height=800,menubar=no,toolbar=no');
+  if (!editor) {
+    addConsoleEntry('ERROR', 'Failed to open SFX editor. Please allow popups.');
+  }
+});
+
 // Fullscreen button
 const fullscreenBtn = document.getElementById('fullscreen-btn');
 fullscreenBtn.addEventListener('click', () => {
@@ -421,13 +589,178 @@ fullscreenBtn.addEventListener('click', () => {
   }
 });
 
-// Keyboard shortcuts: R to restart, P to pause, F for fullscreen
+// === Save States ===
+
+// Capture the console state and persist it in a slot
+function saveState(slot) {
+  if (isLoaded) worker.postMessage({ type: 'save-state', slot });
+}
+
+// Restore the console state from a slot, refusing snapshots from other builds
+function loadState(slot) {
+  if (isLoaded) worker.postMessage({ type: 'load-state', slot });
+}
+
+// Build save slot rows in the devtools panel
+const saveSlotsEl = document.getElementById('save-slots');
+for (let slot = 1; slot <= SAVE_SLOT_COUNT; slot++) {
+  const row = document.createElement('div');
+  row.className = 'save-slot';
+  row.innerHTML = `
+    <span class="metric-label">${slot}:</span>
+    <span class="save-slot-info" id="save-slot-info-${slot}">empty</span>
+    <button class="console-btn">Save</button>
+    <button class="console-btn">Load</button>
+  `;
+  const buttons = row.querySelectorAll('button');
+  buttons[0].addEventListener('click', () => saveState(slot));
+  buttons[1].addEventListener('click', () => loadState(slot));
+  saveSlotsEl.appendChild(row);
+}
+
+// Show the timestamp of each slot for the current cartridge
+async function refreshSaveSlots() {
+  const gameName = currentGame;
+  for (let slot = 1; slot <= SAVE_SLOT_COUNT; slot++) {
+    const infoEl = document.getElementById(`save-slot-info-${slot}`);
+    try {
+      const snapshot = await saveStateManager.loadSlot(gameName, slot);
+      if (gameName !== currentGame) return;
+      if (!snapshot) {
+        infoEl.textContent = 'empty';
+      } else {
+        const time = new Date(snapshot.createdAt).toLocaleTimeString();
+        const stale = snapshot.buildHash !== cartridgeHash ? ' (old build)' : '';
+        infoEl.textContent = time + stale;
+      }
+    } catch (e) {
+      infoEl.textContent = 'unavailable';
+    }
+  }
+}
+
+// Erase the persisted save RAM of the current cartridge and restart it
+const clearSaveRamBtn = document.getElementById('clear-save-ram');
+clearSaveRamBtn.addEventListener('click', () => {
+  if (isLoaded) worker.postMessage({ type: 'clear-save-ram' });
+});
+
+// === Input Replay ===
+
+// Recording, playback and the replay file format live in the worker
+
+// Download a recording exported by the worker as a .tfr file
+function downloadRecording({ name, ticks, bytes }) {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${ticks}ticks.tfr`;
+  link.click();
+  URL.revokeObjectURL(url);
+  addConsoleEntry('LOG', `Exported replay (${(bytes.length / 1024).toFixed(1)} KB)`);
+}
+
+// Load a .tfr file as the current recording
+async function importRecording(file) {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    worker.postMessage({ type: 'import-recording', bytes }, [bytes.buffer]);
+  } catch (e) {
+    addConsoleEntry('ERROR', `Failed to import replay ${file.name}: ${e.message}`);
+  }
+}
+
+const recordBtn = document.getElementById('record-replay');
+recordBtn.addEventListener('click', () => {
+  if (isLoaded) worker.postMessage({ type: 'toggle-recording' });
+});
+
+const playReplayBtn = document.getElementById('play-replay');
+playReplayBtn.addEventListener('click', () => {
+  if (isLoaded) worker.postMessage({ type: 'play-recording' });
+});
+
+const exportReplayBtn = document.getElementById('export-replay');
+exportReplayBtn.addEventListener('click', () => {
+  worker.postMessage({ type: 'export-recording' });
+});
+
+const importReplayInput = document.getElementById('import-replay-file') as HTMLInputElement;
+document.getElementById('import-replay').addEventListener('click', () => importReplayInput.click());
+importReplayInput.addEventListener('change', () => {
+  if (importReplayInput.files.length > 0) {
+    importRecording(importReplayInput.files[0]);
+  }
+  importReplayInput.value = '';
+});
+
+// === Audio Log ===
+
+// Audio calls are recorded in the worker, which knows the tick of each one
+
+// Download the audio log exported by the worker as a text file
+function downloadAudioLog({ name, count, text }) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-audio.log`;
+  link.click();
+  URL.revokeObjectURL(url);
+  addConsoleEntry('LOG', `Exported audio log (${count} calls)`);
+}
+
+// Logging stays on across cartridge loads, the log restarts with every init()
+let isAudioLogEnabled = false;
+
+const audioLogBtn = document.getElementById('audio-log');
+audioLogBtn.addEventListener('click', () => {
+  isAudioLogEnabled = !isAudioLogEnabled;
+  audioLogBtn.classList.toggle('active', isAudioLogEnabled);
+  worker.postMessage({ type: 'set-audio-log', enabled: isAudioLogEnabled });
+  addConsoleEntry('LOG', isAudioLogEnabled ? 'Audio log started' : 'Audio log stopped');
+});
+
+document.getElementById('export-audio-log').addEventListener('click', () => {
+  worker.postMessage({ type: 'export-audio-log' });
+});
+
+// === Rewind ===
+
+// True while the rewind key is held
+// The worker steps back one tick per frame while this is set
+let isRewinding = false;
+
+function startRewind() {
+  if (!isLoaded || hasAborted) return;
+  worker.postMessage({ type: 'rewind-start' });
+  isRewinding = true;
+}
+
+// Release the rewind key when the window loses focus
+window.addEventListener('blur', () => {
+  isRewinding = false;
+});
+
+// Keyboard shortcuts: R to restart, P to pause, F for fullscreen, M to mute, . to step one tick,
+// 1-4 to load a save state, Shift+1-4 to save one, hold Backspace to rewind
+window.addEventListener('keyup', (e) => {
+  if (e.code === 'Backspace') {
+    isRewinding = false;
+  }
+});
+
+// Keys typed into a devtools field are neither shortcuts nor gameplay input
+function isEditingField(e) {
+  return e.target instanceof HTMLInputElement && e.target.type !== 'range';
+}
+
 window.addEventListener('keydown', (e) => {
+  // Keys bound to a button are gameplay input, not shortcuts
+  // Nothing is a shortcut while the Controls panel waits for a key to bind
+  if (isCapturingBinding() || inputBindings.isKeyBound(e.code) || isEditingField(e)) return;
+
   if ((e.key === 'r' || e.key === 'R') && !e.repeat) {
-    if (init) {
-      init();
-      addConsoleEntry('LOG', 'Game restarted');
-    }
+    restartGame();
     e.preventDefault();
   } else if ((e.key === 'p' || e.key === 'P') && !e.repeat) {
     togglePause();
@@ -441,22 +774,36 @@ window.addEventListener('keydown', (e) => {
       document.exitFullscreen();
     }
     e.preventDefault();
+  } else if ((e.key === 'm' || e.key === 'M') && !e.repeat) {
+    addConsoleEntry('LOG', toggleMasterMute() ? 'Audio muted' : 'Audio unmuted');
+    e.preventDefault();
+  } else if (e.code === 'Period') {
+    stepTicks(1);
+    e.preventDefault();
+  } else if (e.code === 'Backspace') {
+    if (!e.repeat) startRewind();
+    // While paused, every key repeat steps back one tick
+    if (isRewinding && isPaused) worker.postMessage({ type: 'rewind-step' });
+    e.preventDefault();
+  } else if (/^Digit[1-9]$/.test(e.code) && !e.repeat) {
+    const slot = parseInt(e.code.slice(5), 10);
+    if (slot <= SAVE_SLOT_COUNT) {
+      if (e.shiftKey) {
+        saveState(slot);
+      } else {
+        loadState(slot);
+      }
+      e.preventDefault();
+    }
   }
 });
 
 // Input handling
-const KEYMAP = {
-  ArrowUp:    1 << 0,
-  ArrowDown:  1 << 1,
-  ArrowLeft:  1 << 2,
-  ArrowRight: 1 << 3,
-  KeyZ:       1 << 4,
-  KeyX:       1 << 5,
-  Enter:      1 << 6
-};
-
+// Keys are mapped to buttons through the user bindings (see input-bindings.ts)
 let inputMask = 0;
-let prevInputMask = 0;
+let gamepadMask = 0;
+let p2InputMask = 0;
+let p2GamepadMask = 0;
 let isPaused = false;
 
 // Mouse state
@@ -466,22 +813,49 @@ let mouseX = -1;
 let mouseY = -1;
 // Mouse buttons bitmask: bit 0=left, bit 1=right, bit 2=middle
 let mouseButtons = 0;
-let prevMouseButtons = 0;
 
 window.addEventListener("keydown", e => {
-  if (KEYMAP[e.code]) {
-    inputMask |= KEYMAP[e.code];
+  if (isCapturingBinding()) return;
+  if (inputBindings.isKeyBound(e.code) && !isEditingField(e)) {
+    inputMask |= inputBindings.keyMask(0, e.code);
+    p2InputMask |= inputBindings.keyMask(1, e.code);
     e.preventDefault();
   }
 });
 
 window.addEventListener("keyup", e => {
-  if (KEYMAP[e.code]) {
-    inputMask &= ~KEYMAP[e.code];
+  if (inputBindings.isKeyBound(e.code)) {
+    inputMask &= ~inputBindings.keyMask(0, e.code);
+    p2InputMask &= ~inputBindings.keyMask(1, e.code);
     e.preventDefault();
   }
 });
 
+// Release everything when bindings change, a held key may no longer map to its button
+inputBindings.onChange(() => {
+  inputMask = 0;
+  p2InputMask = 0;
+});
+
+// Gamepad input
+// Gamepads are polled once per frame in frame(), connection changes are reported here
+window.addEventListener('gamepadconnected', (e: GamepadEvent) => {
+  addConsoleEntry('LOG', `Gamepad ${e.gamepad.index} connected: ${e.gamepad.id}`);
+});
+
+window.addEventListener('gamepaddisconnected', (e: GamepadEvent) => {
+  addConsoleEntry('LOG', `Gamepad ${e.gamepad.index} disconnected`);
+});
+
+const deadzoneInput = document.getElementById('gamepad-deadzone') as HTMLInputElement;
+const deadzoneValueEl = document.getElementById('gamepad-deadzone-value');
+deadzoneInput.value = String(gamepadInput.getDeadzone());
+deadzoneValueEl.textContent = gamepadInput.getDeadzone().toFixed(2);
+deadzoneInput.addEventListener('input', () => {
+  gamepadInput.setDeadzone(parseFloat(deadzoneInput.value));
+  deadzoneValueEl.textContent = gamepadInput.getDeadzone().toFixed(2);
+});
+
 // Mouse input
 // Tracks mouse position and button state, scaled to virtual 320×240 coordinates
 
@@ -527,15 +901,13 @@ canvas.addEventListener("contextmenu", e => {
   e.preventDefault();
 });
 
-// === Fixed Timestep Loop ===
+// === Frame Loop ===
 
-// This ensures deterministic game logic regardless of actual frame rate
-const TICK_HZ = 60;                    // Target simulation rate (60 updates per second)
-const DT = 1000 / TICK_HZ;             // Delta time per update (16.67ms)
-const MAX_UPDATES = 5;                 // Safety cap to prevent spiral of death
-
-let last = performance.now();          // Last frame timestamp
-let acc = 0;                           // Time accumulator for fixed timestep
+// Each animation frame sends the current input to the worker, which runs the
+// fixed timestep updates that are due and presents the frame. At most one
+// frame is in flight, so a slow cartridge drops frames instead of queueing them.
+let frameInFlight = false;
+let resetClock = true;                 // Restart the worker's timestep accumulator
 
 // === Dev Tools ===
 let fps = 60;
@@ -557,26 +929,48 @@ const accEl = document.getElementById('acc');
 const inputEl = document.getElementById('input');
 const mouseEl = document.getElementById('mouse');
 const mouseButtonsEl = document.getElementById('mouse-buttons');
+const replayEl = document.getElementById('replay-status');
+const rewindEl = document.getElementById('rewind');
+const sfxVoicesEl = document.getElementById('sfx-voices');
 
 // Pause game when tab is hidden, resume when visible
 // This stops the animation loop entirely to save CPU when tab is in background
 document.addEventListener("visibilitychange", () => {
+  updateAudioSuspended();
   if (document.hidden) {
     // Tab hidden - animation loop will stop naturally
-    if (animationFrameId) {
-      cancelAnimationFrame(animationFrameId);
-      animationFrameId = null;
-    }
-  } else {
-    // Tab visible - restart animation loop
-    if (!animationFrameId && !hasAborted) {
-      last = performance.now();          // Reset reference time on resume
-      acc = 0;                           // Clear accumulated time
-      animationFrameId = requestAnimationFrame(frame);
-    }
+    stopLoop();
+  } else if (isLoaded) {
+    // Tab visible - restart animation loop with a fresh reference time
+    startLoop();
   }
 });
 
+// No sound while nothing runs
+function updateAudioSuspended() {
+  audioManager.setSuspended(isPaused || document.hidden);
+}
+
+// Format a button bitmask for the dev tools panel
+function formatMask(mask) {
+  return '0x' + mask.toString(16).padStart(2, '0').toUpperCase();
+}
+
+// Poll gamepads and combine them with the keyboard and mouse state into one tick of input
+// A gamepad button pressed to bind it in the Controls panel does not reach the game
+function readInput() {
+  const capturing = isCapturingBinding();
+  gamepadMask = capturing ? 0 : gamepadInput.poll(0);
+  p2GamepadMask = capturing ? 0 : gamepadInput.poll(1);
+  return {
+    buttons: inputMask | gamepadMask,
+    p2Buttons: p2InputMask | p2GamepadMask,
+    mouseX,
+    mouseY,
+    mouseButtons
+  };
+}
+
 function frame(now) {
   animationFrameId = null;  // Clear ID since this frame is running
   
@@ -585,84 +979,39 @@ function frame(now) {
     return;
   }
 
-  // Performance timing
-  const frameTime = now - last;
-
-  // Accumulate time since last frame
-  acc += frameTime;
-  last = now;
-
-  // Run fixed timestep updates
-  // This loop ensures update() is called at exactly TICK_HZ frequency
-  // Multiple updates may occur per frame if rendering is slow
-  let updates = 0;
-  let totalUpdateTime = 0;
-  
-  while (acc >= DT && updates < MAX_UPDATES && !hasAborted) {
-    try {
-      const updateStart = performance.now();
-      
-      // Write input state to WASM memory
-      const inputView = new DataView(memory.buffer);
-      
-      // Keyboard input
-      // Layout: [u8 buttons][u8 prev_buttons]
-      inputView.setUint8(INPUT_ADDR, inputMask);
-      inputView.setUint8(INPUT_ADDR + 1, prevInputMask);
-      
-      // Mouse input
-      // Layout: [i16 x][i16 y][u8 buttons][u8 prev_buttons]
-      inputView.setInt16(MOUSE_ADDR, mouseX, true);
-      inputView.setInt16(MOUSE_ADDR + 2, mouseY, true);
-      inputView.setUint8(MOUSE_ADDR + 4, mouseButtons);
-      inputView.setUint8(MOUSE_ADDR + 5, prevMouseButtons);
-      
-      update();                          // Game logic update
-      prevInputMask = inputMask;         // Track previous input state
-      prevMouseButtons = mouseButtons;   // Track previous mouse state
-      acc -= DT;                         // Consume one timestep
-      updates++;
-      
-      totalUpdateTime += performance.now() - updateStart;
-    } catch (e) {
-      addConsoleEntry('ERROR', `Error in update(): ${e.message}`);
-      hasAborted = true;
-      break;
-    }
-  }
-  
-  // If we hit the update cap, skip frames rather than spiraling
-  // This prevents the game from freezing while trying to catch up
-  if (updates >= MAX_UPDATES) {
-    console.warn("Max updates reached, skipping frames");
-    acc = 0;                           // Reset to prevent runaway
+  // Skip this frame while the worker is still busy with the previous one
+  if (!frameInFlight) {
+    worker.postMessage({
+      type: 'frame',
+      now,
+      input: readInput(),
+      rewinding: isRewinding,
+      resetClock
+    });
+    frameInFlight = true;
+    resetClock = false;
   }
 
-  // Render current state (runs at display refresh rate)
-  let drawTime = 0;
-  if (!hasAborted) {
-    try {
-      const drawStart = performance.now();
-      draw();
-      ctx.putImageData(image, 0, 0);
-      drawTime = performance.now() - drawStart;
-    } catch (e) {
-      addConsoleEntry('ERROR', `Error in draw(): ${e.message}`);
-      hasAborted = true;
-    }
+  // Continue the loop only if document is still visible and no abort occurred
+  if (!document.hidden && !hasAborted) {
+    animationFrameId = requestAnimationFrame(frame);
   }
+}
 
-  // Update performance metrics (rolling average)
-  function updatePerfMetric(samples, newValue) {
-    samples.push(newValue);
-    if (samples.length > PERF_SAMPLE_COUNT) samples.shift();
-    return samples.reduce((a, b) => a + b, 0) / samples.length;
-  }
-  
-  avgUpdateTime = updatePerfMetric(updateTimeSamples, totalUpdateTime);
-  avgDrawTime = updatePerfMetric(drawTimeSamples, drawTime);
+// Update performance metrics (rolling average)
+function updatePerfMetric(samples, newValue) {
+  samples.push(newValue);
+  if (samples.length > PERF_SAMPLE_COUNT) samples.shift();
+  return samples.reduce((a, b) => a + b, 0) / samples.length;
+}
+
+// Show the stats of a frame presented by the worker
+function updateDevTools(stats) {
+  avgUpdateTime = updatePerfMetric(updateTimeSamples, stats.updateTime);
+  avgDrawTime = updatePerfMetric(drawTimeSamples, stats.drawTime);
 
   // Update FPS counter
+  const now = performance.now();
   frameCount++;
   if (now - lastFpsUpdate >= 1000) {
     fps = Math.round(frameCount * 1000 / (now - lastFpsUpdate));
@@ -674,14 +1023,14 @@ function frame(now) {
   fpsEl.textContent = String(fps);
   updateTimeEl.textContent = avgUpdateTime.toFixed(2);
   drawTimeEl.textContent = avgDrawTime.toFixed(2);
-  updatesEl.textContent = String(updates);
-  accEl.textContent = String(Math.round(acc));
-  inputEl.textContent = '0x' + inputMask.toString(16).padStart(2, '0').toUpperCase();
+  updatesEl.textContent = String(stats.updates);
+  accEl.textContent = String(Math.round(stats.acc));
+  inputEl.textContent = formatMask(inputMask | gamepadMask) + ' / ' + formatMask(p2InputMask | p2GamepadMask);
   mouseEl.textContent = `${mouseX}, ${mouseY}`;
-  mouseButtonsEl.textContent = '0x' + mouseButtons.toString(16).padStart(2, '0').toUpperCase();
-
-  // Continue the loop only if document is still visible and no abort occurred
-  if (!document.hidden && !hasAborted) {
-    animationFrameId = requestAnimationFrame(frame);
-  }
+  mouseButtonsEl.textContent = formatMask(mouseButtons);
+  replayEl.textContent = stats.replayStatus;
+  rewindEl.textContent = `${stats.rewindCount} (${(stats.rewindDataSize / 1024).toFixed(1)} KB)`;
+  sfxVoicesEl.textContent = `${audioManager.getActiveVoiceCount()} / ${audioManager.getPolyphony()}`;
+  recordBtn.textContent = stats.isRecording ? 'Stop Recording' : 'Record';
+  playReplayBtn.textContent = stats.isPlaying ? 'Stop Replay' : 'Play Replay';
 }
@@ -0,0 +1,364 @@
+// Map Manager - Loads Tiled maps into the map region
+//
+// Maps are made with the Tiled editor (https://www.mapeditor.org) and saved
+// as JSON (.tmj) or XML (.tmx) in assets/maps/, named {ID}-name like other
+// assets. Tilesets must be embedded in the map and use images from
+// assets/sprites/: a tile's sprite ID is the ID of the sprite (sheet) its
+// image was loaded as, plus its index in the tileset. Sprites are therefore
+// loaded before maps.
+
+import { AssetLoader } from './asset-loader.js';
+import { spriteManager, parseSpriteSheetName } from './sprite-manager.js';
+import {
+  MAP_ADDR, MAP_SIZE, MAP_COUNT, MAP_HEADER_SIZE, MAP_TILE_FLAGS_ADDR, MAP_DATA_ADDR, MAP_OBJECT_SIZE,
+  TILE_SOLID, TILE_HAZARD, TILE_LADDER
+} from '../memory-map.js';
+
+// Tile properties (bool) setting tile flags
+const TILE_FLAG_PROPERTIES = { solid: TILE_SOLID, hazard: TILE_HAZARD, ladder: TILE_LADDER };
+
+// Tiled stores flipping and rotation in the top bits of a gid (not supported)
+const GID_MASK = 0x1fffffff;
+
+class MapManager {
+  #memory = null;
+  #maps = new Map(); // id -> {cols, rows, tileWidth, tileHeight, layers: Uint8Array[], objects, tileFlags}
+  #dataSize = 0;
+
+  /**
+   * Initialize with WebAssembly memory reference
+   */
+  init(memory) {
+    this.#memory = memory;
+  }
+
+  /**
+   * Get map count
+   * @returns {number}
+   */
+  getMapCount() {
+    return this.#maps.size;
+  }
+
+  /**
+   * Get total map data size in bytes
+   * @returns {number}
+   */
+  getDataSize() {
+    return this.#dataSize;
+  }
+
+  /**
+   * Load all map files from assets/maps/ folder
+   */
+  async loadMaps() {
+    if (!this.#memory) {
+      console.error('MapManager not initialized with memory');
+      return;
+    }
+
+    const mapAssets = await AssetLoader.scanDirectory('../assets/maps/', /\.(tmj|tmx)$/i, 0, MAP_COUNT - 1);
+    for (const asset of mapAssets) {
+      try {
+        const response = await fetch(asset.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        this.addMap(asset.id, await response.text(), asset.filename);
+      } catch (e) {
+        console.warn(`Failed to load map ${asset.id} from ${asset.url}:`, e.message);
+      }
+    }
+
+    this.writeToMemory();
+  }
+
+  /**
+   * Parse a Tiled map and add it
+   * @param id - Map ID (0-15)
+   * @param text - Contents of a .tmj (JSON) or .tmx (XML) file
+   * @param filename - Source file name, its extension selects the format
+   * @throws If the map cannot be used by the console
+   */
+  addMap(id, text, filename) {
+    const tiled = /\.tmx$/i.test(filename) ? parseTmx(text) : JSON.parse(text);
+    if (tiled.infinite) throw new Error('Infinite maps are not supported');
+    if (tiled.orientation && tiled.orientation !== 'orthogonal') {
+      throw new Error(`${tiled.orientation} maps are not supported`);
+    }
+    if (tiled.tilewidth > 255 || tiled.tileheight > 255) throw new Error('Tiles are larger than 255 pixels');
+
+    const tilesets = (tiled.tilesets ?? [])
+      .map(tileset => resolveTileset(tileset))
+      .sort((a, b) => b.firstgid - a.firstgid);
+    const tileFlags = new Map();
+    for (const tileset of tilesets) {
+      for (const [localId, flags] of tileset.flags) {
+        const sprite = tileset.toSprite(localId);
+        if (sprite !== null && sprite <= 255) tileFlags.set(sprite, flags);
+      }
+    }
+
+    // Sprite ID of a gid, from the tileset with the highest firstgid not above it
+    const toSprite = (gid) => {
+      gid &= GID_MASK;
+      if (gid === 0) return 0;
+      const tileset = tilesets.find(t => t.firstgid <= gid);
+      const sprite = tileset ? tileset.toSprite(gid - tileset.firstgid) : null;
+      if (sprite === null || sprite > 255) throw new Error(`Tile ${gid} has no sprite ID (0-255)`);
+      return sprite;
+    };
+
+    const layers = [];
+    const objects = [];
+    for (const layer of flattenLayers(tiled.layers ?? [])) {
+      if (layer.type === 'tilelayer') {
+        const gids = decodeLayerData(layer);
+        if (gids.length !== tiled.width * tiled.height) {
+          throw new Error(`Layer ${layer.name} has ${gids.length} tiles, expected ${tiled.width * tiled.height}`);
+        }
+        layers.push(Uint8Array.from(gids, toSprite));
+      } else if (layer.type === 'objectgroup') {
+        for (const object of layer.objects ?? []) {
+          // Tile objects are anchored at their bottom-left corner
+          const sprite = object.gid ? toSprite(object.gid) : 0;
+          const height = Math.round(object.height ?? 0);
+          let type = AssetLoader.extractId(object.class ?? object.type ?? '');
+          if (type === null || type > 255) {
+            console.warn(`Map ${id}: object ${object.id} has no type, name its class {ID}-name (e.g. 1-coin)`);
+            type = 0;
+          }
+          objects.push({
+            x: Math.round(object.x),
+            y: Math.round(object.y) - (sprite ? height : 0),
+            width: Math.round(object.width ?? 0),
+            height,
+            type,
+            sprite,
+            value: getProperty(object.properties, 'value') ?? 0
+          });
+        }
+      }
+    }
+
+    AssetLoader.checkDuplicate(this.#maps, id, filename, 'Map');
+    this.#maps.set(id, {
+      cols: tiled.width,
+      rows: tiled.height,
+      tileWidth: tiled.tilewidth,
+      tileHeight: tiled.tileheight,
+      layers,
+      objects,
+      tileFlags
+    });
+  }
+
+  /**
+   * Write all map headers, tile flags, tiles and objects to WASM memory
+   * Maps that do not fit in the map region are skipped
+   */
+  writeToMemory() {
+    new Uint8Array(this.#memory.buffer, MAP_ADDR, MAP_SIZE).fill(0);
+    const view = new DataView(this.#memory.buffer);
+    const bytes = new Uint8Array(this.#memory.buffer);
+
+    let addr = MAP_DATA_ADDR;
+    for (const [id, map] of [...this.#maps].sort((a, b) => a[0] - b[0])) {
+      const size = map.layers.length * map.cols * map.rows + map.objects.length * MAP_OBJECT_SIZE;
+      if (addr + size > MAP_ADDR + MAP_SIZE) {
+        console.warn(`Map ${id} does not fit in map memory (${size} bytes, ${MAP_ADDR + MAP_SIZE - addr} left), skipping`);
+        continue;
+      }
+
+      const header = MAP_ADDR + id * MAP_HEADER_SIZE;
+      view.setUint16(header + 0, map.cols, true);
+      view.setUint16(header + 2, map.rows, true);
+      view.setUint8(header + 4, map.tileWidth);
+      view.setUint8(header + 5, map.tileHeight);
+      view.setUint8(header + 6, map.layers.length);
+      view.setUint16(header + 8, map.objects.length, true);
+      view.setUint32(header + 12, addr, true);
+
+      for (const layer of map.layers) {
+        bytes.set(layer, addr);
+        addr += layer.length;
+      }
+      for (const object of map.objects) {
+        view.setInt16(addr + 0, object.x, true);
+        view.setInt16(addr + 2, object.y, true);
+        view.setUint16(addr + 4, object.width, true);
+        view.setUint16(addr + 6, object.height, true);
+        view.setUint8(addr + 8, object.type);
+        view.setUint8(addr + 9, object.sprite);
+        view.setInt16(addr + 10, object.value, true);
+        addr += MAP_OBJECT_SIZE;
+      }
+      for (const [sprite, flags] of map.tileFlags) bytes[MAP_TILE_FLAGS_ADDR + sprite] |= flags;
+    }
+
+    this.#dataSize = addr - MAP_DATA_ADDR;
+  }
+}
+
+// Sprite ID lookup and tile flags of an embedded tileset
+function resolveTileset(tileset) {
+  if (tileset.source) {
+    throw new Error(`External tileset ${tileset.source} is not supported, embed it in the map`);
+  }
+
+  const tileImages = new Map();
+  const flags = new Map();
+  for (const tile of tileset.tiles ?? []) {
+    if (tile.image) tileImages.set(tile.id, spriteIdOf(tile.image));
+    let tileFlags = 0;
+    for (const [name, flag] of Object.entries(TILE_FLAG_PROPERTIES)) {
+      if (getProperty(tile.properties, name)) tileFlags |= flag;
+    }
+    if (tileFlags) flags.set(tile.id, tileFlags);
+  }
+
+  // Sprite sheet: tiles are numbered like the sheet's sprites
+  if (tileset.image) {
+    const startId = spriteIdOf(tileset.image);
+    const { cols } = parseSpriteSheetName(tileset.image);
+    if (tileset.columns && tileset.columns !== cols) {
+      console.warn(`Tileset ${tileset.name} has ${tileset.columns} columns but ${tileset.image} is split into ${cols}`);
+    }
+    return { firstgid: tileset.firstgid, flags, toSprite: (localId) => startId + localId };
+  }
+
+  // Collection of images: every tile is a sprite of its own
+  return { firstgid: tileset.firstgid, flags, toSprite: (localId) => tileImages.get(localId) ?? null };
+}
+
+// Sprite ID of an image in assets/sprites/
+function spriteIdOf(image) {
+  const id = AssetLoader.extractId(image);
+  if (id === null || !spriteManager.hasSprite(id)) {
+    throw new Error(`Tileset image ${image} is not a loaded sprite (assets/sprites/{ID}-name.png)`);
+  }
+  return id;
+}
+
+// Tile and object layers in drawing order, including those in groups
+function flattenLayers(layers) {
+  return layers.flatMap(layer => layer.type === 'group' ? flattenLayers(layer.layers ?? []) : [layer]);
+}
+
+// Gids of a tile layer, from an array, CSV or uncompressed base64 data
+function decodeLayerData(layer) {
+  if (layer.compression) throw new Error(`Layer ${layer.name}: ${layer.compression} compression is not supported`);
+  if (Array.isArray(layer.data)) return layer.data;
+  if (layer.encoding === 'csv') return layer.data.split(',').map(v => parseInt(v, 10));
+  if (layer.encoding === 'base64') {
+    const binary = atob(layer.data.trim());
+    const view = new DataView(Uint8Array.from(binary, ch => ch.charCodeAt(0)).buffer);
+    return Array.from({ length: binary.length / 4 }, (_, i) => view.getUint32(i * 4, true));
+  }
+  throw new Error(`Layer ${layer.name}: unsupported data encoding ${layer.encoding}`);
+}
+
+// Value of a custom property, undefined without one
+function getProperty(properties, name) {
+  return (properties ?? []).find(p => p.name === name)?.value;
+}
+
+// === TMX ===
+
+// Convert a .tmx file to the structure of a .tmj file (the parts used above)
+function parseTmx(text) {
+  const root = parseXml(text);
+  if (root?.name !== 'map') throw new Error('Not a Tiled map');
+  return {
+    ...numbers(root.attrs, ['width', 'height', 'tilewidth', 'tileheight', 'infinite']),
+    orientation: root.attrs.orientation,
+    tilesets: root.children.filter(e => e.name === 'tileset').map(tileset => ({
+      ...numbers(tileset.attrs, ['firstgid', 'columns']),
+      name: tileset.attrs.name,
+      source: tileset.attrs.source,
+      image: child(tileset, 'image')?.attrs.source,
+      tiles: tileset.children.filter(e => e.name === 'tile').map(tile => ({
+        id: Number(tile.attrs.id),
+        image: child(tile, 'image')?.attrs.source,
+        properties: tmxProperties(tile)
+      }))
+    })),
+    layers: tmxLayers(root)
+  };
+}
+
+function tmxLayers(parent) {
+  return parent.children.flatMap(e => {
+    if (e.name === 'group') return [{ type: 'group', layers: tmxLayers(e) }];
+    if (e.name === 'layer') {
+      const data = child(e, 'data');
+      const tiles = data.children.filter(t => t.name === 'tile');
+      return [{
+        type: 'tilelayer',
+        name: e.attrs.name,
+        encoding: data.attrs.encoding,
+        compression: data.attrs.compression,
+        data: data.attrs.encoding ? data.text : tiles.map(t => Number(t.attrs.gid ?? 0))
+      }];
+    }
+    if (e.name === 'objectgroup') {
+      return [{
+        type: 'objectgroup',
+        objects: e.children.filter(o => o.name === 'object').map(o => ({
+          ...numbers(o.attrs, ['id', 'x', 'y', 'width', 'height', 'gid']),
+          class: o.attrs.class ?? o.attrs.type,
+          properties: tmxProperties(o)
+        }))
+      }];
+    }
+    return [];
+  });
+}
+
+function tmxProperties(element) {
+  return (child(element, 'properties')?.children ?? []).map(p => {
+    const value = p.attrs.value ?? p.text;
+    const type = p.attrs.type ?? 'string';
+    return {
+      name: p.attrs.name,
+      value: type === 'bool' ? value === 'true' : type === 'int' || type === 'float' ? Number(value) : value
+    };
+  });
+}
+
+function child(element, name) {
+  return element.children.find(e => e.name === name);
+}
+
+// Numeric attributes, absent ones are left out
+function numbers(attrs, names) {
+  return Object.fromEntries(names.filter(n => n in attrs).map(n => [n, Number(attrs[n])]));
+}
+
+// Minimal XML parser for Tiled files: elements, attributes and text
+function parseXml(text) {
+  const entities = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  const unescape = (s) => s.replace(/&(amp|lt|gt|quot|apos);/g, (_, e) => entities[e]);
+  const root = { name: '', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  const tag = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match;
+  while ((match = tag.exec(text))) {
+    const [, cdata, closing, name, attrText, selfClosing, chars] = match;
+    const parent = stack[stack.length - 1];
+    if (chars !== undefined || cdata !== undefined) {
+      parent.text += cdata ?? unescape(chars);
+    } else if (closing) {
+      stack.pop();
+    } else if (name) {
+      const attrs = {};
+      for (const [, key, , value] of attrText.matchAll(/([\w:.-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+        attrs[key] = unescape(value);
+      }
+      const element = { name, attrs, children: [], text: '' };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  return root.children[0];
+}
+
+export const mapManager = new MapManager();
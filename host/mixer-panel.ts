@@ -0,0 +1,69 @@
+// Mixer Panel
+// Dev tools panel for the master, music and SFX bus volumes and mute switches
+
+import { MIXER_BUSES, audioManager } from './audio-manager.js';
+
+const BUS_LABELS = { master: 'Master', music: 'Music', sfx: 'SFX' };
+
+const mixerEl = document.getElementById('mixer');
+const controls = {};           // Bus name -> {slider, value, mute}
+
+for (const bus of MIXER_BUSES) {
+  const row = document.createElement('div');
+  row.className = 'mixer-row';
+
+  const label = document.createElement('span');
+  label.className = 'metric-label';
+  label.textContent = BUS_LABELS[bus];
+  row.appendChild(label);
+
+  const slider = document.createElement('input');
+  slider.className = 'slider';
+  slider.type = 'range';
+  slider.min = '0';
+  slider.max = '100';
+  slider.step = '5';
+  slider.title = `${BUS_LABELS[bus]} volume`;
+  slider.addEventListener('input', () => {
+    audioManager.setBusVolume(bus, parseInt(slider.value, 10) / 100);
+  });
+  row.appendChild(slider);
+
+  const value = document.createElement('span');
+  value.className = 'metric-value';
+  row.appendChild(value);
+
+  const mute = document.createElement('button');
+  mute.className = 'console-btn';
+  mute.textContent = 'Mute';
+  mute.addEventListener('click', () => {
+    audioManager.setBusMuted(bus, !audioManager.isBusMuted(bus));
+  });
+  row.appendChild(mute);
+
+  mixerEl.appendChild(row);
+  controls[bus] = { slider, value, mute };
+}
+
+function render() {
+  for (const bus of MIXER_BUSES) {
+    const { slider, value, mute } = controls[bus];
+    const percent = Math.round(audioManager.getBusVolume(bus) * 100);
+    slider.value = String(percent);
+    value.textContent = `${percent}%`;
+    mute.classList.toggle('active', audioManager.isBusMuted(bus));
+  }
+}
+
+/**
+ * Mute or unmute everything (shortcut M)
+ * @returns {boolean} true if the master bus is now muted
+ */
+export function toggleMasterMute() {
+  const muted = !audioManager.isBusMuted('master');
+  audioManager.setBusMuted('master', muted);
+  return muted;
+}
+
+audioManager.onMixerChange(render);
+render();
@@ -0,0 +1,254 @@
+// Music Sequencer - Tracks music playback per tick
+//
+// The page renders and plays music (audio-manager.ts); the worker only needs
+// its timing to tell the cartridge what plays and, for tracker songs, where
+// playback is. Everything is derived from a tick counter kept in the status
+// registers at MUSIC_ADDR, so it is saved, rewound and replayed with the rest
+// of memory and stays in step with the game at any simulation speed. After
+// memory was restored, getPlayback() tells the page where to resume the music.
+
+import {
+  MUSIC_ADDR, MUSIC_SIZE, MUSIC_PLAYING, MUSIC_PAUSED, MUSIC_QUEUED, MUSIC_NO_ORDER
+} from '../memory-map.js';
+
+// Times ending exactly on a tick must not round down to the previous row or loop
+const EPSILON = 1e-9;
+
+class MusicSequencer {
+  #memory = null;
+  #tickDuration = 0;           // Seconds per tick
+  #timings = new Map();        // Music ID -> {duration} (+ {rowDuration, order, patternLengths, loop} for songs)
+
+  /**
+   * Initialize with WASM memory
+   * @param memory - Console memory holding the status registers
+   * @param tickDuration - Length of one tick in seconds
+   */
+  init(memory, tickDuration) {
+    this.#memory = memory;
+    this.#tickDuration = tickDuration;
+  }
+
+  /**
+   * Set the timing of the loaded music
+   * @param timings - Music ID -> timing, see AudioManager.getMusicTimings()
+   */
+  setTimings(timings) {
+    this.#timings = new Map(Object.entries(timings).map(([id, timing]) => [Number(id), timing]));
+  }
+
+  /**
+   * Start playback from the beginning, dropping any queued track
+   * @param id - Music ID
+   * @param volume - Volume (0-1)
+   */
+  start(id, volume = 1.0) {
+    const view = this.#view();
+    view.setUint8(MUSIC_ADDR, MUSIC_PLAYING);
+    view.setUint8(MUSIC_ADDR + 1, id);
+    view.setUint8(MUSIC_ADDR + 7, 0);
+    view.setUint8(MUSIC_ADDR + 12, toVolumeByte(volume));
+    this.#seek(view, 0);
+    this.#updatePosition(view);
+  }
+
+  /**
+   * Stop playback
+   */
+  stop() {
+    new Uint8Array(this.#memory.buffer, MUSIC_ADDR, MUSIC_SIZE).fill(0);
+  }
+
+  /**
+   * Start a track when the current one ends, or right away if nothing plays
+   * @param id - Music ID
+   * @param volume - Volume (0-1)
+   */
+  queue(id, volume = 1.0) {
+    const view = this.#view();
+    const flags = view.getUint8(MUSIC_ADDR);
+    if (!(flags & MUSIC_PLAYING)) {
+      this.start(id, volume);
+      return;
+    }
+    view.setUint8(MUSIC_ADDR, flags | MUSIC_QUEUED);
+    view.setUint8(MUSIC_ADDR + 7, id);
+    view.setUint8(MUSIC_ADDR + 13, toVolumeByte(volume));
+  }
+
+  /**
+   * Hold or continue the playback position
+   * @param paused - true to pause
+   */
+  setPaused(paused) {
+    const view = this.#view();
+    const flags = view.getUint8(MUSIC_ADDR);
+    if (!(flags & MUSIC_PLAYING)) return;
+    view.setUint8(MUSIC_ADDR, paused ? flags | MUSIC_PAUSED : flags & ~MUSIC_PAUSED);
+  }
+
+  /**
+   * Jump to an order position at the next row
+   * @param position - Order list index
+   */
+  setOrder(position) {
+    const view = this.#view();
+    const song = this.#timings.get(view.getUint8(MUSIC_ADDR + 1));
+    if (!(view.getUint8(MUSIC_ADDR) & MUSIC_PLAYING) || !song?.order) return;
+    if (position < 0 || position >= song.order.length) return;
+    view.setUint8(MUSIC_ADDR + 6, position);
+  }
+
+  /**
+   * Follow an audio call of the cartridge, only music calls change playback
+   * @param method - Audio hook name (see AUDIO_METHODS in audio-log.ts)
+   * @param args - Arguments passed to the hook
+   */
+  follow(method, args) {
+    switch (method) {
+      case 'playMusic':
+        this.start(args[0], args[1]);
+        break;
+      case 'crossfadeMusic':
+        this.start(args[0], args[2]);
+        break;
+      case 'stopMusic':
+      case 'fadeOutMusic':
+        this.stop();
+        break;
+      case 'queueMusic':
+        this.queue(args[0], args[1]);
+        break;
+      case 'pauseMusic':
+        this.setPaused(true);
+        break;
+      case 'resumeMusic':
+        this.setPaused(false);
+        break;
+      case 'setMusicOrder':
+        this.setOrder(args[0]);
+        break;
+    }
+  }
+
+  /**
+   * Advance playback by one tick, called before every update()
+   */
+  advance() {
+    const view = this.#view();
+    const flags = view.getUint8(MUSIC_ADDR);
+    const timing = this.#timings.get(view.getUint8(MUSIC_ADDR + 1));
+    if (!(flags & MUSIC_PLAYING) || (flags & MUSIC_PAUSED) || !timing) return;
+
+    const row = view.getUint8(MUSIC_ADDR + 4);
+    const order = view.getUint8(MUSIC_ADDR + 2);
+    const ticks = view.getUint32(MUSIC_ADDR + 8, true);
+    view.setUint32(MUSIC_ADDR + 8, ticks + 1, true);
+
+    // A queued track takes over when the current one reaches its end
+    if ((flags & MUSIC_QUEUED) && this.#countEnds(view, timing, ticks + 1) > this.#countEnds(view, timing, ticks)) {
+      this.start(view.getUint8(MUSIC_ADDR + 7), view.getUint8(MUSIC_ADDR + 13) / 255);
+      return;
+    }
+    if (!timing.order) return;
+    this.#updatePosition(view);
+
+    // Requested jumps happen on the row boundary, like on the audio side
+    const next = view.getUint8(MUSIC_ADDR + 6);
+    const rowChanged = view.getUint8(MUSIC_ADDR + 4) !== row || view.getUint8(MUSIC_ADDR + 2) !== order;
+    if (next !== MUSIC_NO_ORDER && rowChanged) {
+      this.#seek(view, next);
+      this.#updatePosition(view);
+    }
+  }
+
+  /**
+   * Get what the page has to play to match the status registers
+   * Used to resume the music after a state load, a replay start or a rewind
+   * @returns {id, volume, order, elapsed, nextOrder, paused, queuedId, queuedVolume},
+   *   elapsed in seconds since the start order, or null if no music plays
+   */
+  getPlayback() {
+    const view = this.#view();
+    const flags = view.getUint8(MUSIC_ADDR);
+    if (!(flags & MUSIC_PLAYING)) return null;
+    const next = view.getUint8(MUSIC_ADDR + 6);
+    return {
+      id: view.getUint8(MUSIC_ADDR + 1),
+      volume: view.getUint8(MUSIC_ADDR + 12) / 255,
+      order: view.getUint8(MUSIC_ADDR + 5),
+      elapsed: view.getUint32(MUSIC_ADDR + 8, true) * this.#tickDuration,
+      nextOrder: next === MUSIC_NO_ORDER ? null : next,
+      paused: (flags & MUSIC_PAUSED) !== 0,
+      queuedId: flags & MUSIC_QUEUED ? view.getUint8(MUSIC_ADDR + 7) : null,
+      queuedVolume: view.getUint8(MUSIC_ADDR + 13) / 255
+    };
+  }
+
+  #view() {
+    return new DataView(this.#memory.buffer);
+  }
+
+  #seek(view, position) {
+    view.setUint8(MUSIC_ADDR + 5, position);
+    view.setUint8(MUSIC_ADDR + 6, MUSIC_NO_ORDER);
+    view.setUint32(MUSIC_ADDR + 8, 0, true);
+  }
+
+  // Times the track reached its end (or the end of a loop) after a number of ticks
+  #countEnds(view, timing, ticks) {
+    const elapsed = ticks * this.#tickDuration + EPSILON;
+    if (!timing.order) return Math.floor(elapsed / timing.duration);
+
+    let rows = 0;
+    for (let i = view.getUint8(MUSIC_ADDR + 5); i < timing.order.length; i++) {
+      rows += timing.patternLengths[timing.order[i]];
+    }
+    const first = rows * timing.rowDuration;
+    if (elapsed < first) return 0;
+    if (timing.loop < 0) return 1;
+    return 1 + Math.floor((elapsed - first) / (this.#loopRows(timing) * timing.rowDuration));
+  }
+
+  // Derive order position, pattern and row from the tick counter
+  #updatePosition(view) {
+    const song = this.#timings.get(view.getUint8(MUSIC_ADDR + 1));
+    if (!song?.order) return;
+
+    const ticks = view.getUint32(MUSIC_ADDR + 8, true);
+    let rows = (ticks * this.#tickDuration + EPSILON) / song.rowDuration;
+    let position = view.getUint8(MUSIC_ADDR + 5);
+    while (rows >= song.patternLengths[song.order[position]]) {
+      rows -= song.patternLengths[song.order[position]];
+      position++;
+      if (position >= song.order.length) {
+        if (song.loop < 0) {
+          this.stop();
+          return;
+        }
+        position = song.loop;
+        rows %= this.#loopRows(song);
+      }
+    }
+
+    view.setUint8(MUSIC_ADDR + 2, position);
+    view.setUint8(MUSIC_ADDR + 3, song.order[position]);
+    view.setUint8(MUSIC_ADDR + 4, Math.floor(rows));
+  }
+
+  // Rows from the loop position to the end of the order list
+  #loopRows(song) {
+    let rows = 0;
+    for (let i = song.loop; i < song.order.length; i++) {
+      rows += song.patternLengths[song.order[i]];
+    }
+    return rows;
+  }
+}
+
+// Volume stored in the status registers, 0-255
+function toVolumeByte(volume) {
+  return Math.round(Math.max(0, Math.min(1, volume ?? 1)) * 255);
+}
+
+export const musicSequencer = new MusicSequencer();
@@ -0,0 +1,136 @@
+// Rewind Buffer - Ring buffer of Game RAM deltas for stepping backwards in time
+//
+// After every tick the buffer stores the XOR of Game RAM and the captured
+// hardware registers (see save-states.ts) before and after the tick,
+// zero-run length encoded. XORing the newest delta back into memory restores
+// the state of the previous tick, so the simulation can be walked backwards
+// one tick at a time. This relies on the convention that cartridges keep all
+// state in RAM.
+
+import { rleDecode, rleEncode } from './binary-codec.js';
+import { REGISTERS_ADDR, REGISTERS_SIZE } from './save-states.js';
+import { RAM_START, RAM_SIZE } from '../memory-map.js';
+
+/** Number of ticks kept in the buffer (30 seconds at 60 Hz) */
+export const REWIND_CAPACITY = 60 * 30;
+
+/** Memory regions tracked by the deltas, [address, size] */
+const TRACKED_REGIONS = [[RAM_START, RAM_SIZE], [REGISTERS_ADDR, REGISTERS_SIZE]];
+
+/** Tracked bytes per tick, the regions back to back */
+const TRACKED_SIZE = RAM_SIZE + REGISTERS_SIZE;
+
+class RewindBuffer {
+  #memory = null;
+  #entries = new Array(REWIND_CAPACITY);
+  #head = 0;   // Index of the next entry to write
+  #count = 0;  // Number of valid entries
+  #dataSize = 0;
+  #prev = new Uint8Array(TRACKED_SIZE);  // Tracked regions as of the last push
+  #scratch = new Uint8Array(TRACKED_SIZE);
+
+  /**
+   * Initialize with WebAssembly memory reference
+   */
+  init(memory) {
+    this.#memory = memory;
+  }
+
+  /**
+   * Get number of ticks that can be rewound
+   * @returns {number}
+   */
+  getCount() {
+    return this.#count;
+  }
+
+  /**
+   * Get total size of the stored deltas in bytes
+   * @returns {number}
+   */
+  getDataSize() {
+    return this.#dataSize;
+  }
+
+  /**
+   * Drop all history and start tracking from the current memory contents
+   * Call whenever RAM is changed outside of update() (init, state load, ...)
+   */
+  reset() {
+    this.#entries.fill(undefined);
+    this.#head = 0;
+    this.#count = 0;
+    this.#dataSize = 0;
+    this.#forEachRegion((live, offset) => this.#prev.set(live, offset));
+  }
+
+  /**
+   * Record the tick that just ran
+   * @param loopState - Host loop state before the tick {prevInputMask, prevP2InputMask, prevMouseButtons}
+   */
+  push(loopState) {
+    const delta = this.#scratch;
+    const prev = this.#prev;
+    this.#forEachRegion((live, offset) => {
+      for (let i = 0; i < live.length; i++) {
+        delta[offset + i] = live[i] ^ prev[offset + i];
+      }
+      prev.set(live, offset);
+    });
+
+    const old = this.#entries[this.#head];
+    if (old) this.#dataSize -= old.delta.length;
+
+    const entry = {
+      delta: rleEncode(delta),
+      prevInputMask: loopState.prevInputMask,
+      prevP2InputMask: loopState.prevP2InputMask,
+      prevMouseButtons: loopState.prevMouseButtons
+    };
+    this.#entries[this.#head] = entry;
+    this.#dataSize += entry.delta.length;
+    this.#head = (this.#head + 1) % REWIND_CAPACITY;
+    this.#count = Math.min(this.#count + 1, REWIND_CAPACITY);
+  }
+
+  /**
+   * Undo the newest recorded tick
+   * @returns Host loop state to resume with {prevInputMask, prevP2InputMask, prevMouseButtons},
+   *   or null if the buffer is empty
+   */
+  stepBack() {
+    if (this.#count === 0) return null;
+
+    this.#head = (this.#head - 1 + REWIND_CAPACITY) % REWIND_CAPACITY;
+    this.#count--;
+    const entry = this.#entries[this.#head];
+    this.#entries[this.#head] = undefined;
+    this.#dataSize -= entry.delta.length;
+
+    // Apply the delta to the last recorded state rather than live memory, so
+    // edits made outside update() (memory viewer) cannot corrupt history
+    const prev = this.#prev;
+    const delta = rleDecode(entry.delta, this.#scratch);
+    for (let i = 0; i < TRACKED_SIZE; i++) {
+      prev[i] ^= delta[i];
+    }
+    this.#forEachRegion((live, offset) => live.set(prev.subarray(offset, offset + live.length)));
+
+    return {
+      prevInputMask: entry.prevInputMask,
+      prevP2InputMask: entry.prevP2InputMask,
+      prevMouseButtons: entry.prevMouseButtons
+    };
+  }
+
+  // Call fn with a live view of each tracked region and its offset in the deltas
+  #forEachRegion(fn) {
+    let offset = 0;
+    for (const [addr, size] of TRACKED_REGIONS) {
+      fn(new Uint8Array(this.#memory.buffer, addr, size), offset);
+      offset += size;
+    }
+  }
+}
+
+export const rewindBuffer = new RewindBuffer();
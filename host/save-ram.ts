@@ -0,0 +1,89 @@
+// Save RAM - Battery-backed cartridge storage persisted in IndexedDB
+//
+// The SAVE_RAM_ADDR region survives reloads: it is filled from storage before
+// the cartridge's init() and written back when the cartridge sets the dirty
+// flag at SAVE_DIRTY_ADDR or calls commitSave(). Unlike save states, save RAM
+// is keyed by cartridge name only, so it survives rebuilds of the cartridge.
+
+import { IdbStore } from './idb-store.js';
+import { SAVE_DIRTY_ADDR, SAVE_RAM_ADDR, SAVE_RAM_SIZE } from '../memory-map.js';
+
+class SaveRam {
+  #memory = null;
+  #store = new IdbStore('save-ram');
+  #cartridge = null;
+  #lastSaved = new Uint8Array(SAVE_RAM_SIZE); // Contents as of the last write
+
+  /**
+   * Initialize with WebAssembly memory reference
+   */
+  init(memory) {
+    this.#memory = memory;
+  }
+
+  /**
+   * Fill save RAM with the stored contents for a cartridge (zeros if none)
+   * Call before the cartridge's init()
+   * @param cartridge - Cartridge name
+   */
+  async load(cartridge) {
+    // Nothing is persisted until the stored contents were read successfully
+    this.#cartridge = null;
+    const data = new Uint8Array(SAVE_RAM_SIZE);
+    this.#region().set(data);
+    new Uint8Array(this.#memory.buffer)[SAVE_DIRTY_ADDR] = 0;
+
+    const stored = await this.#store.get(cartridge);
+    if (stored instanceof Uint8Array) {
+      data.set(stored.subarray(0, SAVE_RAM_SIZE));
+      this.#region().set(data);
+    }
+    this.#lastSaved = data;
+    this.#cartridge = cartridge;
+  }
+
+  /**
+   * Write save RAM to storage if the cartridge set the dirty flag
+   * Call once per frame after the updates ran
+   */
+  async flushIfDirty() {
+    const bytes = new Uint8Array(this.#memory.buffer);
+    if (!bytes[SAVE_DIRTY_ADDR]) return;
+    bytes[SAVE_DIRTY_ADDR] = 0;
+    await this.commit();
+  }
+
+  /**
+   * Write save RAM to storage now (skipped when unchanged)
+   */
+  async commit() {
+    if (!this.#cartridge) return;
+    const data = this.#region().slice();
+    if (sameBytes(data, this.#lastSaved)) return;
+    this.#lastSaved = data;
+    await this.#store.put(this.#cartridge, data);
+  }
+
+  /**
+   * Erase the stored save RAM of the loaded cartridge and zero the region
+   */
+  async clear() {
+    if (!this.#cartridge) return;
+    this.#region().fill(0);
+    this.#lastSaved = new Uint8Array(SAVE_RAM_SIZE);
+    await this.#store.delete(this.#cartridge);
+  }
+
+  #region() {
+    return new Uint8Array(this.#memory.buffer, SAVE_RAM_ADDR, SAVE_RAM_SIZE);
+  }
+}
+
+function sameBytes(a, b) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+export const saveRam = new SaveRam();
@@ -0,0 +1,130 @@
+// Save State Manager - Snapshots and restores console memory in numbered slots
+//
+// A snapshot holds everything the cartridge can observe between two ticks:
+// the Game RAM region, the hardware registers it writes (REGISTERS_ADDR), the
+// input bytes at INPUT_ADDR/MOUSE_ADDR and the host loop state used for edge
+// detection and timing. The framebuffer is not stored since draw() rebuilds
+// it from RAM.
+
+import { IdbStore } from './idb-store.js';
+import { INPUT_ADDR, MOUSE_ADDR, RAM_START, RAM_SIZE, SFX_ADDR, PALETTE_ADDR, PALETTE_SIZE } from '../memory-map.js';
+
+/** Number of save slots exposed in the UI (1-based) */
+export const SAVE_SLOT_COUNT = 4;
+
+/** Bytes captured at INPUT_ADDR and MOUSE_ADDR (full 8-byte register blocks) */
+const INPUT_BLOCK_SIZE = 8;
+
+/**
+ * Hardware registers captured and rewound with Game RAM: sound effect voice state,
+ * synthesizer registers, music sequencer status, video registers (mode, camera, clip) and palette
+ */
+export const REGISTERS_ADDR = SFX_ADDR;
+
+/** Size of the captured hardware registers in bytes */
+export const REGISTERS_SIZE = PALETTE_ADDR + PALETTE_SIZE - SFX_ADDR;
+
+class SaveStateManager {
+  #memory = null;
+  #store = new IdbStore('save-states');
+
+  /**
+   * Initialize with WebAssembly memory reference
+   */
+  init(memory) {
+    this.#memory = memory;
+  }
+
+  /**
+   * Capture the current console state
+   * @param cartridge - Cartridge name
+   * @param buildHash - Hash of the cartridge binary
+   * @param loopState - Host loop state {prevInputMask, prevP2InputMask, prevMouseButtons, acc, tick}
+   */
+  capture(cartridge, buildHash, loopState) {
+    const bytes = new Uint8Array(this.#memory.buffer);
+    return {
+      cartridge,
+      buildHash,
+      createdAt: Date.now(),
+      ram: bytes.slice(RAM_START, RAM_START + RAM_SIZE),
+      registers: bytes.slice(REGISTERS_ADDR, REGISTERS_ADDR + REGISTERS_SIZE),
+      input: bytes.slice(INPUT_ADDR, INPUT_ADDR + INPUT_BLOCK_SIZE),
+      mouse: bytes.slice(MOUSE_ADDR, MOUSE_ADDR + INPUT_BLOCK_SIZE),
+      prevInputMask: loopState.prevInputMask,
+      prevP2InputMask: loopState.prevP2InputMask,
+      prevMouseButtons: loopState.prevMouseButtons,
+      acc: loopState.acc,
+      tick: loopState.tick
+    };
+  }
+
+  /**
+   * Write a snapshot back into memory
+   * @returns Host loop state to resume with {prevInputMask, prevP2InputMask, prevMouseButtons, acc, tick}
+   */
+  restore(snapshot) {
+    const bytes = new Uint8Array(this.#memory.buffer);
+    bytes.set(snapshot.ram, RAM_START);
+    bytes.set(snapshot.registers, REGISTERS_ADDR);
+    bytes.set(snapshot.input, INPUT_ADDR);
+    bytes.set(snapshot.mouse, MOUSE_ADDR);
+    return {
+      prevInputMask: snapshot.prevInputMask,
+      prevP2InputMask: snapshot.prevP2InputMask ?? 0, // Missing in snapshots from before the P2 port
+      prevMouseButtons: snapshot.prevMouseButtons,
+      acc: snapshot.acc,
+      tick: snapshot.tick ?? 0       // Missing in older snapshots
+    };
+  }
+
+  /**
+   * Persist a snapshot into a numbered slot for its cartridge
+   */
+  async saveSlot(slot, snapshot) {
+    await this.#store.put(this.#slotKey(snapshot.cartridge, slot), snapshot);
+  }
+
+  /**
+   * Read the snapshot stored in a slot
+   * @returns Promise that resolves to the snapshot, or undefined if the slot is empty
+   */
+  async loadSlot(cartridge, slot): Promise<SaveState | undefined> {
+    const snapshot = await this.#store.get(this.#slotKey(cartridge, slot));
+    return isSaveState(snapshot) ? snapshot : undefined;
+  }
+
+  /**
+   * Check that a snapshot can be restored into the running cartridge
+   * @returns Error message, or null if compatible
+   */
+  checkCompatible(snapshot, cartridge, buildHash) {
+    if (snapshot.cartridge !== cartridge) {
+      return `Save state belongs to ${snapshot.cartridge}, not ${cartridge}`;
+    }
+    if (snapshot.buildHash !== buildHash) {
+      return `Save state was made with a different build of ${cartridge} ` +
+        `(${snapshot.buildHash.slice(0, 8)} vs ${buildHash.slice(0, 8)})`;
+    }
+    if (snapshot.ram.length !== RAM_SIZE) {
+      return `Save state RAM size ${snapshot.ram.length} does not match console RAM size ${RAM_SIZE}`;
+    }
+    if (snapshot.registers?.length !== REGISTERS_SIZE) {
+      return `Save state register size ${snapshot.registers?.length ?? 0} does not match console register size ${REGISTERS_SIZE}`;
+    }
+    return null;
+  }
+
+  #slotKey(cartridge, slot) {
+    return `${cartridge}:${slot}`;
+  }
+}
+
+/** Snapshot returned by capture() */
+export type SaveState = ReturnType<SaveStateManager['capture']>;
+
+function isSaveState(value: unknown): value is SaveState {
+  return typeof value === 'object' && value !== null && (value as SaveState).ram instanceof Uint8Array;
+}
+
+export const saveStateManager = new SaveStateManager();
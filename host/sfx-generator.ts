@@ -0,0 +1,187 @@
+// SFX Generator - Renders sfxr-style sound effect descriptors to samples
+//
+// A descriptor is a small JSON object (stored as assets/sfx/{ID}-name.sfx.json)
+// describing one procedural sound: waveform, volume envelope, pitch slide,
+// vibrato, arpeggio, duty sweep and filters. Missing fields take the values of
+// DEFAULT_SFX. Rendering is deterministic: noise uses a fixed seed, so the same
+// descriptor always produces the same samples.
+//
+// Used by audio-manager.ts at load time and by the SFX editor (sfx-editor.html).
+// tracker.ts reuses the noise generator.
+
+/** Waveforms a descriptor can use */
+export const SFX_WAVES = ['square', 'sawtooth', 'triangle', 'sine', 'noise'];
+
+/**
+ * Default descriptor, also documents every field
+ * Times are in seconds, frequencies in Hz, slides in octaves per second
+ */
+export const DEFAULT_SFX = {
+  wave: 'square',
+  volume: 0.5,          // Master volume (0-1)
+
+  attack: 0,            // Envelope: fade in
+  sustain: 0.1,         // Envelope: hold at full volume
+  punch: 0,             // Extra volume at the start of sustain (0-1)
+  decay: 0.2,           // Envelope: fade out
+
+  frequency: 440,       // Start frequency
+  minFrequency: 20,     // The sound stops when a downward slide passes this
+  slide: 0,             // Pitch slide (octaves per second, negative = down)
+  deltaSlide: 0,        // Change of slide (octaves per second²)
+  vibratoDepth: 0,      // Vibrato amount (fraction of the frequency, 0-1)
+  vibratoSpeed: 0,      // Vibrato rate in Hz
+  arpeggio: 1,          // Frequency multiplier applied after arpeggioTime (1 = off)
+  arpeggioTime: 0,      // Time of the arpeggio jump
+
+  duty: 0.5,            // Square pulse width (0-1)
+  dutySweep: 0,         // Change of duty per second
+
+  lowPass: 0,           // Low-pass cutoff in Hz (0 = off)
+  highPass: 0           // High-pass cutoff in Hz (0 = off)
+};
+
+/** Longest sound a descriptor may render (seconds) */
+const MAX_DURATION = 10;
+
+/**
+ * Fill missing fields with defaults and validate a descriptor
+ * @param descriptor - Parsed .sfx.json contents
+ * @returns Complete descriptor
+ * @throws If a field has the wrong type or the waveform is unknown
+ */
+export function normalizeSfx(descriptor) {
+  if (!descriptor || typeof descriptor !== 'object') {
+    throw new Error('Descriptor must be an object');
+  }
+  const sfx = { ...DEFAULT_SFX };
+  for (const key of Object.keys(DEFAULT_SFX)) {
+    if (descriptor[key] === undefined) continue;
+    if (typeof descriptor[key] !== typeof DEFAULT_SFX[key] ||
+        (typeof descriptor[key] === 'number' && !isFinite(descriptor[key]))) {
+      throw new Error(`Invalid value for "${key}"`);
+    }
+    sfx[key] = descriptor[key];
+  }
+  if (!SFX_WAVES.includes(sfx.wave)) {
+    throw new Error(`Unknown wave "${sfx.wave}"`);
+  }
+  return sfx;
+}
+
+/**
+ * Render a descriptor to mono samples
+ * @param descriptor - Descriptor (normalized or partial)
+ * @param sampleRate - Output sample rate in Hz
+ * @returns {Float32Array} Samples in the range -1..1
+ */
+export function renderSfx(descriptor, sampleRate) {
+  const sfx = normalizeSfx(descriptor);
+  const attack = Math.max(0, sfx.attack);
+  const sustain = Math.max(0, sfx.sustain);
+  const decay = Math.max(0, sfx.decay);
+  const duration = Math.min(MAX_DURATION, attack + sustain + decay);
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const out = new Float32Array(length);
+
+  const random = createRandom(1);
+  const dt = 1 / sampleRate;
+  const lowPass = filterCoefficient(sfx.lowPass, sampleRate);
+  const highPass = filterCoefficient(sfx.highPass, sampleRate);
+
+  let phase = 0;
+  let octaves = 0;             // Accumulated slide relative to the start frequency
+  let slide = sfx.slide;
+  let noiseValue = random();
+  let lowPassed = 0;
+  let highPassInput = 0;
+  let highPassed = 0;
+
+  for (let i = 0; i < length; i++) {
+    const t = i * dt;
+
+    // Pitch: slide, arpeggio jump and vibrato
+    let frequency = sfx.frequency * Math.pow(2, octaves);
+    if (sfx.slide < 0 && frequency < sfx.minFrequency) break;
+    if (sfx.arpeggioTime > 0 && t >= sfx.arpeggioTime) frequency *= sfx.arpeggio;
+    if (sfx.vibratoDepth > 0) {
+      frequency *= 1 + sfx.vibratoDepth * Math.sin(2 * Math.PI * sfx.vibratoSpeed * t);
+    }
+    octaves += slide * dt;
+    slide += sfx.deltaSlide * dt;
+
+    // Oscillator
+    const prevPhase = phase;
+    phase = (phase + frequency * dt) % 1;
+    let sample;
+    switch (sfx.wave) {
+      case 'square': {
+        const duty = Math.min(0.95, Math.max(0.05, sfx.duty + sfx.dutySweep * t));
+        sample = phase < duty ? 1 : -1;
+        break;
+      }
+      case 'sawtooth':
+        sample = 2 * phase - 1;
+        break;
+      case 'triangle':
+        sample = phase < 0.5 ? 4 * phase - 1 : 3 - 4 * phase;
+        break;
+      case 'sine':
+        sample = Math.sin(2 * Math.PI * phase);
+        break;
+      case 'noise':
+        // New random value 32 times per period, like sfxr
+        if (Math.floor(phase * 32) !== Math.floor(prevPhase * 32) || phase < prevPhase) {
+          noiseValue = random();
+        }
+        sample = noiseValue;
+        break;
+    }
+
+    // Filters (one-pole)
+    if (lowPass < 1) {
+      lowPassed += lowPass * (sample - lowPassed);
+      sample = lowPassed;
+    }
+    if (highPass < 1) {
+      highPassed = (1 - highPass) * (highPassed + sample - highPassInput);
+      highPassInput = sample;
+      sample = highPassed;
+    }
+
+    out[i] = sample * envelope(sfx, attack, sustain, decay, t) * sfx.volume;
+  }
+
+  return out;
+}
+
+// Volume envelope at time t (0-1, above 1 during punch)
+function envelope(sfx, attack, sustain, decay, t) {
+  if (t < attack) return t / attack;
+  t -= attack;
+  if (t < sustain) return 1 + sfx.punch * (1 - t / sustain);
+  t -= sustain;
+  if (t < decay) return 1 - t / decay;
+  return 0;
+}
+
+// Smoothing factor of a one-pole filter, 1 when the filter is off
+function filterCoefficient(cutoff, sampleRate) {
+  if (!(cutoff > 0)) return 1;
+  const rc = 1 / (2 * Math.PI * cutoff);
+  return Math.min(1, (1 / sampleRate) / (rc + 1 / sampleRate));
+}
+
+/**
+ * Seeded PRNG (mulberry32)
+ * @param seed - Initial state
+ * @returns {() => number} Generator of values in -1..1
+ */
+export function createRandom(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 2147483648 - 1;
+  };
+}
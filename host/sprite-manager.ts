@@ -23,6 +23,15 @@ class SpriteManager {
     return this.#sprites.size;
   }
 
+  /**
+   * Check if a sprite was loaded
+   * @param id - Sprite ID
+   * @returns {boolean}
+   */
+  hasSprite(id) {
+    return this.#sprites.has(id);
+  }
+
   /**
    * Get total sprite data size in bytes
    * @returns {number}
@@ -53,7 +62,7 @@ class SpriteManager {
       }
 
       // Write all loaded sprites to WASM memory
-      this.#writeSpritesToMemory();
+      this.writeToMemory();
     } catch (e) {
       console.warn('Sprite loading failed:', e.message);
     }
@@ -67,112 +76,85 @@ class SpriteManager {
    */
   async #loadSprite(id, url) {
     try {
-      AssetLoader.checkDuplicate(this.#sprites, id, url, 'Sprite');
-
-      // Check if this is a sprite sheet (format: ID~COLSxROWS-*.ext)
-      const basename = url.split('/').pop();
-      const sheetMatch = basename.match(/^(\d+)~(\d+)x(\d+)/);
-      
       // Load image
       const img = await AssetLoader.loadImage(url);
       const image = img as HTMLImageElement;
-      
-      if (sheetMatch) {
-        // Sprite sheet detected
-        const cols = parseInt(sheetMatch[2], 10);
-        const rows = parseInt(sheetMatch[3], 10);
-        await this.#loadSpriteSheet(image, id, cols, rows, url);
-      } else {
-        // Single sprite
-        await this.#loadSingleSprite(image, id, url);
-      }
+
+      // Get RGBA pixel data of the whole image
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const ctx = canvas.getContext('2d');
+      ctx.drawImage(image, 0, 0);
+      const imageData = ctx.getImageData(0, 0, image.width, image.height);
+
+      const { cols, rows } = parseSpriteSheetName(url);
+      this.addImage(id, image.width, image.height, imageData.data, cols, rows, url);
     } catch (e) {
       console.warn(`Failed to load sprite ${id} from ${url}:`, e.message);
     }
   }
 
   /**
-   * Load a single sprite image
-   */
-  async #loadSingleSprite(image, id, url) {
-    const canvas = document.createElement('canvas');
-    canvas.width = image.width;
-    canvas.height = image.height;
-    const ctx = canvas.getContext('2d');
-    ctx.drawImage(image, 0, 0);
-    
-    // Get RGBA pixel data
-    const imageData = ctx.getImageData(0, 0, image.width, image.height);
-    
-    this.#sprites.set(id, {
-      width: image.width,
-      height: image.height,
-      data: imageData.data // Uint8ClampedArray of RGBA values
-    });
-  }
-
-  /**
-   * Load a sprite sheet and split it into individual sprites
-   * @param image - The loaded sprite sheet image
-   * @param startId - Starting sprite ID
-   * @param cols - Number of sprites across (width)
-   * @param rows - Number of sprites down (height)
+   * Add a decoded image as one sprite, or split it into a sprite sheet
+   * Sprites are assigned sequential IDs starting from startId,
+   * left-to-right, top-to-bottom
+   * @param startId - Sprite ID of the first (or only) sprite
+   * @param width - Image width in pixels
+   * @param height - Image height in pixels
+   * @param rgba - Image pixels (RGBA, 4 bytes per pixel)
+   * @param cols - Number of sprites across (default: 1)
+   * @param rows - Number of sprites down (default: 1)
    * @param url - Source URL (for logging)
    */
-  async #loadSpriteSheet(image, startId, cols, rows, url) {
-    const spriteWidth = Math.floor(image.width / cols);
-    const spriteHeight = Math.floor(image.height / rows);
+  addImage(startId, width, height, rgba, cols = 1, rows = 1, url = '') {
+    AssetLoader.checkDuplicate(this.#sprites, startId, url, 'Sprite');
+
+    if (cols === 1 && rows === 1) {
+      this.#sprites.set(startId, { width, height, data: rgba });
+      return;
+    }
+
+    const spriteWidth = Math.floor(width / cols);
+    const spriteHeight = Math.floor(height / rows);
     const totalSprites = cols * rows;
-    
+
     console.log(`Loading sprite sheet: ${url} (${cols}x${rows} = ${totalSprites} sprites, ${spriteWidth}x${spriteHeight} each)`);
-    
-    // Create a temporary canvas for extraction
-    const canvas = document.createElement('canvas');
-    canvas.width = spriteWidth;
-    canvas.height = spriteHeight;
-    const ctx = canvas.getContext('2d');
-    
+
     // Extract each sprite from the sheet
     let currentId = startId;
     for (let row = 0; row < rows; row++) {
       for (let col = 0; col < cols; col++) {
-        // Clear canvas
-        ctx.clearRect(0, 0, spriteWidth, spriteHeight);
-        
-        // Draw the sprite region
-        const sx = col * spriteWidth;
-        const sy = row * spriteHeight;
-        ctx.drawImage(
-          image,
-          sx, sy, spriteWidth, spriteHeight,  // Source
-          0, 0, spriteWidth, spriteHeight      // Destination
-        );
-        
-        // Get pixel data
-        const imageData = ctx.getImageData(0, 0, spriteWidth, spriteHeight);
-        
-        // Store sprite
-        if (currentId <= 255) {
-          this.#sprites.set(currentId, {
-            width: spriteWidth,
-            height: spriteHeight,
-            data: imageData.data
-          });
-          currentId++;
-        } else {
+        if (currentId > 255) {
           console.warn(`Sprite ID ${currentId} exceeds maximum (255), skipping remaining sprites`);
           return;
         }
+
+        // Copy the sprite region row by row
+        const data = new Uint8ClampedArray(spriteWidth * spriteHeight * 4);
+        const sx = col * spriteWidth;
+        const sy = row * spriteHeight;
+        for (let y = 0; y < spriteHeight; y++) {
+          const srcStart = ((sy + y) * width + sx) * 4;
+          data.set(rgba.subarray(srcStart, srcStart + spriteWidth * 4), y * spriteWidth * 4);
+        }
+
+        this.#sprites.set(currentId, {
+          width: spriteWidth,
+          height: spriteHeight,
+          data
+        });
+        currentId++;
       }
     }
-    
+
     console.log(`Loaded ${totalSprites} sprites from sheet (IDs ${startId}-${currentId - 1})`);
   }
 
   /**
    * Write all sprite metadata and pixel data to WASM memory
    */
-  #writeSpritesToMemory() {
+  writeToMemory() {
     let dataOffset = 0;
     const view = new DataView(this.#memory.buffer);
     
@@ -206,4 +188,19 @@ class SpriteManager {
   }
 }
 
+/**
+ * Get the sprite sheet grid from a filename
+ * Sprite sheet format: ID~COLSxROWS-*.ext, single sprites are a 1x1 grid
+ * @returns {cols, rows}
+ */
+export function parseSpriteSheetName(url) {
+  const basename = url.split(/[\/\\]/).pop();
+  const sheetMatch = basename.match(/^(\d+)~(\d+)x(\d+)/);
+  if (!sheetMatch) return { cols: 1, rows: 1 };
+  return {
+    cols: parseInt(sheetMatch[2], 10),
+    rows: parseInt(sheetMatch[3], 10)
+  };
+}
+
 export const spriteManager = new SpriteManager();
@@ -0,0 +1,32 @@
+// Synth Registers - Synthesizer register handling around ticks
+//
+// Shared by the cartridge worker and the headless runner
+// (scripts/run-cartridge.js) so both leave the registers at AUDIO_ADDR in the
+// same state after every tick. The page plays them (see updateSynth() in
+// audio-manager.ts).
+
+import {
+  AUDIO_ADDR, AUDIO_SIZE, AUDIO_CHANNEL_SIZE, AUDIO_CHANNEL_COUNT, AUDIO_TRIGGER
+} from '../memory-map.js';
+
+/**
+ * Silence all channels, called before init()
+ * @param memory - Console memory
+ */
+export function resetSynthRegisters(memory) {
+  new Uint8Array(memory.buffer, AUDIO_ADDR, AUDIO_SIZE).fill(0);
+}
+
+/**
+ * Copy the registers after a tick and acknowledge the trigger bits
+ * @param memory - Console memory
+ * @returns Copy of the registers as update() left them, trigger bits included
+ */
+export function latchSynthRegisters(memory) {
+  const registers = new Uint8Array(memory.buffer, AUDIO_ADDR, AUDIO_SIZE);
+  const latched = registers.slice();
+  for (let i = 0; i < AUDIO_CHANNEL_COUNT; i++) {
+    registers[i * AUDIO_CHANNEL_SIZE + 7] &= ~AUDIO_TRIGGER;
+  }
+  return latched;
+}
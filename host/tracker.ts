@@ -0,0 +1,276 @@
+// Tracker - Parses and renders pattern-based songs
+//
+// A song (assets/music/{ID}-name.song.json) is a tempo, a list of
+// instruments, a list of patterns and an order list saying which pattern
+// plays when:
+//
+//   {
+//     "tempo": 120,              // Beats per minute
+//     "rowsPerBeat": 4,          // Rows per beat (4 = one row per 16th note)
+//     "instruments": [{ "wave": "square", "duty": 0.25, "release": 0.1 }],
+//     "patterns": [
+//       ["C-4 0|C-2 1", "...|...", "E-4|off", ...]
+//     ],
+//     "order": [0, 0, 1],        // Pattern indexes in play order
+//     "loop": 0                  // Order position to loop back to, -1 = play once
+//   }
+//
+// Each row is a string with one cell per channel, separated by "|". A cell
+// is a note (C-4, C#4, ...) optionally followed by an instrument index,
+// "off" to release the note, or "..."/empty to leave the channel unchanged.
+// A note without an instrument reuses the channel's previous one.
+//
+// All rows have the same length, so playback positions map directly to
+// times. Rendering is deterministic, like the procedural SFX.
+
+import { createRandom } from './sfx-generator.js';
+
+/** Waveforms an instrument can use */
+export const INSTRUMENT_WAVES = ['square', 'sawtooth', 'triangle', 'sine', 'noise'];
+
+/**
+ * Default instrument, also documents every field
+ * Times are in seconds
+ */
+export const DEFAULT_INSTRUMENT = {
+  wave: 'square',
+  duty: 0.5,            // Square pulse width (0-1)
+  volume: 0.5,          // 0-1
+  attack: 0.005,        // Fade in when a note starts
+  decay: 0.1,           // Fall from full volume to the sustain level
+  sustain: 0.7,         // Level held until the note ends (0-1)
+  release: 0.05         // Fade out after "off"
+};
+
+/** Most channels (columns) a pattern may have */
+export const MAX_CHANNELS = 8;
+
+const NOTE_NAMES = ['C-', 'C#', 'D-', 'D#', 'E-', 'F-', 'F#', 'G-', 'G#', 'A-', 'A#', 'B-'];
+const NOTE_OFF = 'off';
+
+/**
+ * Validate a song and resolve its cells
+ * @param json - Parsed .song.json contents
+ * @returns Song with numeric cells: {tempo, rowsPerBeat, instruments, patterns, order, loop, channels}
+ *   where every cell is null (no change), {off: true} or {note, instrument}
+ * @throws If the song is malformed
+ */
+export function parseSong(json) {
+  if (!json || typeof json !== 'object') {
+    throw new Error('Song must be an object');
+  }
+  const tempo = json.tempo ?? 120;
+  const rowsPerBeat = json.rowsPerBeat ?? 4;
+  if (!(tempo > 0) || !(rowsPerBeat > 0)) {
+    throw new Error('tempo and rowsPerBeat must be positive');
+  }
+
+  if (!Array.isArray(json.instruments) || json.instruments.length === 0) {
+    throw new Error('Song needs at least one instrument');
+  }
+  const instruments = json.instruments.map((instrument, i) => {
+    const result = { ...DEFAULT_INSTRUMENT, ...instrument };
+    if (!INSTRUMENT_WAVES.includes(result.wave)) {
+      throw new Error(`Instrument ${i}: unknown wave "${result.wave}"`);
+    }
+    for (const key of Object.keys(DEFAULT_INSTRUMENT)) {
+      if (key !== 'wave' && !(result[key] >= 0 && isFinite(result[key]))) {
+        throw new Error(`Instrument ${i}: invalid value for "${key}"`);
+      }
+    }
+    return result;
+  });
+
+  if (!Array.isArray(json.patterns) || json.patterns.length === 0) {
+    throw new Error('Song needs at least one pattern');
+  }
+  let channels = 1;
+  const patterns = json.patterns.map((rows, p) => {
+    if (!Array.isArray(rows) || rows.length === 0 || rows.length > 256) {
+      throw new Error(`Pattern ${p} must have 1-256 rows`);
+    }
+    return rows.map((row, r) => {
+      const cells = String(row).split('|').map(cell => parseCell(cell, instruments.length, `Pattern ${p} row ${r}`));
+      channels = Math.max(channels, cells.length);
+      return cells;
+    });
+  });
+  if (channels > MAX_CHANNELS) {
+    throw new Error(`Songs may use at most ${MAX_CHANNELS} channels`);
+  }
+
+  const order = json.order ?? patterns.map((_, i) => i);
+  if (!Array.isArray(order) || order.length === 0 || order.length > 255 ||
+      order.some(p => !Number.isInteger(p) || !patterns[p])) {
+    throw new Error('order must list 1-255 existing pattern indexes');
+  }
+  const loop = json.loop ?? 0;
+  if (!Number.isInteger(loop) || loop < -1 || loop >= order.length) {
+    throw new Error('loop must be an order position or -1');
+  }
+
+  return { tempo, rowsPerBeat, instruments, patterns, order, loop, channels };
+}
+
+// Parse "C#4 1", "off" or "..." into a cell
+function parseCell(text, instrumentCount, where) {
+  const [note, instrument] = text.trim().split(/\s+/);
+  if (!note || /^\.+$/.test(note)) return null;
+  if (note.toLowerCase() === NOTE_OFF) return { off: true };
+
+  const match = /^([A-G][-#])(\d)$/i.exec(note);
+  const semitone = match ? NOTE_NAMES.indexOf(match[1].toUpperCase()) : -1;
+  if (semitone < 0) {
+    throw new Error(`${where}: invalid note "${note}"`);
+  }
+  let index = null;
+  if (instrument !== undefined) {
+    index = Number(instrument);
+    if (!Number.isInteger(index) || index < 0 || index >= instrumentCount) {
+      throw new Error(`${where}: unknown instrument "${instrument}"`);
+    }
+  }
+  return { note: (Number(match[2]) + 1) * 12 + semitone, instrument: index };
+}
+
+/**
+ * Get the length of one row
+ * @param song - Parsed song
+ * @returns {number} Seconds per row
+ */
+export function getRowDuration(song) {
+  return 60 / (song.tempo * song.rowsPerBeat);
+}
+
+/**
+ * Get the timing the music sequencer needs to follow a song
+ * @param song - Parsed song (see parseSong())
+ * @returns {{rowDuration: number, order: number[], patternLengths: number[], loop: number}}
+ */
+export function getSongTiming(song) {
+  return {
+    rowDuration: getRowDuration(song),
+    order: song.order,
+    patternLengths: song.patterns.map(rows => rows.length),
+    loop: song.loop
+  };
+}
+
+/**
+ * Render a song to mono samples, playing the order list once
+ * @param song - Parsed song (see parseSong())
+ * @param sampleRate - Output sample rate in Hz
+ * @returns {{samples: Float32Array, orderTimes: number[]}} Samples in the
+ *   range -1..1 and the start time (seconds) of every order position
+ */
+export function renderSong(song, sampleRate) {
+  const rowDuration = getRowDuration(song);
+  const rowCount = song.order.reduce((sum, p) => sum + song.patterns[p].length, 0);
+  const samples = new Float32Array(Math.max(1, Math.round(rowCount * rowDuration * sampleRate)));
+  const random = createRandom(1);
+  const dt = 1 / sampleRate;
+
+  const voices = [];
+  for (let c = 0; c < song.channels; c++) {
+    voices.push({ instrument: song.instruments[0], frequency: 0, phase: 0, time: 0, releasedAt: -1, releaseLevel: 0, noise: 0 });
+  }
+
+  const orderTimes = [];
+  let row = 0;
+  for (const patternIndex of song.order) {
+    orderTimes.push(rowStart(row, rowDuration, sampleRate) / sampleRate);
+    for (const cells of song.patterns[patternIndex]) {
+      const start = rowStart(row, rowDuration, sampleRate);
+      const end = Math.min(samples.length, rowStart(row + 1, rowDuration, sampleRate));
+      cells.forEach((cell, c) => applyCell(voices[c], cell, song.instruments));
+
+      for (const voice of voices) {
+        if (voice.frequency === 0) continue;
+        for (let i = start; i < end; i++) {
+          samples[i] += renderVoice(voice, dt, random);
+        }
+      }
+      row++;
+    }
+  }
+
+  // Channels add up, keep full chords in range
+  const gain = 1 / Math.max(1, Math.sqrt(song.channels));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, samples[i] * gain));
+  }
+  return { samples, orderTimes };
+}
+
+// First sample of a row, rounded so rows never drift from the tempo
+function rowStart(row, rowDuration, sampleRate) {
+  return Math.round(row * rowDuration * sampleRate);
+}
+
+function applyCell(voice, cell, instruments) {
+  if (!cell) return;
+  if (cell.off) {
+    releaseVoice(voice);
+    return;
+  }
+  if (cell.instrument !== null) voice.instrument = instruments[cell.instrument];
+  voice.frequency = 440 * Math.pow(2, (cell.note - 69) / 12);
+  voice.time = 0;
+  voice.releasedAt = -1;
+}
+
+function releaseVoice(voice) {
+  if (voice.frequency === 0 || voice.releasedAt >= 0) return;
+  voice.releaseLevel = envelope(voice.instrument, voice.time);
+  voice.releasedAt = voice.time;
+}
+
+// Next sample of a voice, silences it once the release ended
+function renderVoice(voice, dt, random) {
+  const instrument = voice.instrument;
+  let level;
+  if (voice.releasedAt < 0) {
+    level = envelope(instrument, voice.time);
+  } else {
+    const t = voice.time - voice.releasedAt;
+    if (t >= instrument.release) {
+      voice.frequency = 0;
+      return 0;
+    }
+    level = voice.releaseLevel * (1 - t / instrument.release);
+  }
+  voice.time += dt;
+
+  const prevPhase = voice.phase;
+  voice.phase = (voice.phase + voice.frequency * dt) % 1;
+  let sample;
+  switch (instrument.wave) {
+    case 'square':
+      sample = voice.phase < instrument.duty ? 1 : -1;
+      break;
+    case 'sawtooth':
+      sample = 2 * voice.phase - 1;
+      break;
+    case 'triangle':
+      sample = voice.phase < 0.5 ? 4 * voice.phase - 1 : 3 - 4 * voice.phase;
+      break;
+    case 'sine':
+      sample = Math.sin(2 * Math.PI * voice.phase);
+      break;
+    case 'noise':
+      if (Math.floor(voice.phase * 32) !== Math.floor(prevPhase * 32) || voice.phase < prevPhase) {
+        voice.noise = random();
+      }
+      sample = voice.noise;
+      break;
+  }
+  return sample * level * instrument.volume;
+}
+
+// Attack/decay/sustain level t seconds after the note started
+function envelope(instrument, t) {
+  if (t < instrument.attack) return t / instrument.attack;
+  t -= instrument.attack;
+  if (t < instrument.decay) return 1 - (1 - instrument.sustain) * (t / instrument.decay);
+  return instrument.sustain;
+}
@@ -0,0 +1,109 @@
+// Video - Framebuffer modes and the palette
+//
+// Shared by the cartridge worker and the headless runner
+// (scripts/run-cartridge.js) so both present indexed frames the same way.
+// A cartridge selects indexed mode with a `videoMode` export (see
+// sdk/palette.ts); the mode is written to VIDEO_MODE_ADDR before init() so
+// the SDK drawing functions and clearFramebuffer() can pick the pixel format.
+
+import {
+  WIDTH, HEIGHT, FB_START, VIDEO_ADDR, VIDEO_SIZE, VIDEO_MODE_ADDR,
+  CLIP_LEFT_ADDR, CLIP_TOP_ADDR, CLIP_RIGHT_ADDR, CLIP_BOTTOM_ADDR, VIDEO_MODE_RGBA, VIDEO_MODE_INDEXED,
+  PALETTE_ADDR, PALETTE_COLORS
+} from '../memory-map.js';
+
+// 16 basic colors, then a 6×6×6 color cube and a 24 step gray ramp (xterm layout)
+const BASIC_COLORS = [
+  0x000000, 0x800000, 0x008000, 0x808000, 0x000080, 0x800080, 0x008080, 0xc0c0c0,
+  0x808080, 0xff0000, 0x00ff00, 0xffff00, 0x0000ff, 0xff00ff, 0x00ffff, 0xffffff
+];
+const CUBE_LEVELS = [0x00, 0x5f, 0x87, 0xaf, 0xd7, 0xff];
+
+/** Palette loaded before init(), as 0xRRGGBB colors */
+export const DEFAULT_PALETTE = createDefaultPalette();
+
+function createDefaultPalette() {
+  const palette = [...BASIC_COLORS];
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 6; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette.push((CUBE_LEVELS[r] << 16) | (CUBE_LEVELS[g] << 8) | CUBE_LEVELS[b]);
+      }
+    }
+  }
+  for (let i = 0; i < 24; i++) {
+    const level = 8 + i * 10;
+    palette.push((level << 16) | (level << 8) | level);
+  }
+  return palette;
+}
+
+/**
+ * Get the video mode a cartridge asks for
+ * @param exports - Cartridge instance exports
+ * @returns {number} VIDEO_MODE_RGBA or VIDEO_MODE_INDEXED
+ * @throws If the `videoMode` export holds an unknown mode
+ */
+export function getVideoMode(exports) {
+  const value = exports.videoMode instanceof WebAssembly.Global ? exports.videoMode.value : exports.videoMode;
+  if (value === undefined) return VIDEO_MODE_RGBA;
+  if (value !== VIDEO_MODE_RGBA && value !== VIDEO_MODE_INDEXED) {
+    throw new Error(`Unknown video mode ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Set the video mode, reset the camera and clip rectangle and load the
+ * default palette, called before init()
+ * @param memory - Console WebAssembly.Memory
+ * @param mode - VIDEO_MODE_RGBA or VIDEO_MODE_INDEXED
+ */
+export function resetVideo(memory, mode) {
+  new Uint8Array(memory.buffer, VIDEO_ADDR, VIDEO_SIZE).fill(0);
+  new Uint8Array(memory.buffer)[VIDEO_MODE_ADDR] = mode;
+  const view = new DataView(memory.buffer);
+  view.setUint16(CLIP_RIGHT_ADDR, WIDTH, true);
+  view.setUint16(CLIP_BOTTOM_ADDR, HEIGHT, true);
+  const palette = new Uint32Array(memory.buffer, PALETTE_ADDR, PALETTE_COLORS);
+  DEFAULT_PALETTE.forEach((rgb, i) => {
+    palette[i] = 0xff000000 | ((rgb & 0xff) << 16) | (rgb & 0x00ff00) | ((rgb >> 16) & 0xff);
+  });
+}
+
+/**
+ * Check if the framebuffer holds palette indexes
+ * @param memory - Console WebAssembly.Memory
+ * @returns {boolean}
+ */
+export function isIndexedMode(memory) {
+  return new Uint8Array(memory.buffer)[VIDEO_MODE_ADDR] === VIDEO_MODE_INDEXED;
+}
+
+/**
+ * Get the clip rectangle the drawing functions write inside
+ * @param memory - Console WebAssembly.Memory
+ * @returns {{left: number, top: number, right: number, bottom: number}} Screen pixels, right and bottom exclusive
+ */
+export function getClip(memory) {
+  const view = new DataView(memory.buffer);
+  return {
+    left: view.getUint16(CLIP_LEFT_ADDR, true),
+    top: view.getUint16(CLIP_TOP_ADDR, true),
+    right: Math.min(view.getUint16(CLIP_RIGHT_ADDR, true), WIDTH),
+    bottom: Math.min(view.getUint16(CLIP_BOTTOM_ADDR, true), HEIGHT)
+  };
+}
+
+/**
+ * Look every pixel of the indexed framebuffer up in the palette
+ * @param memory - Console WebAssembly.Memory
+ * @param out - WIDTH × HEIGHT ABGR pixels to write
+ */
+export function expandIndexed(memory, out) {
+  const indexes = new Uint8Array(memory.buffer, FB_START, WIDTH * HEIGHT);
+  const palette = new Uint32Array(memory.buffer, PALETTE_ADDR, PALETTE_COLORS);
+  for (let i = 0; i < indexes.length; i++) {
+    out[i] = palette[indexes[i]] | 0xff000000;
+  }
+}
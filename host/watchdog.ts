@@ -0,0 +1,71 @@
+// Watchdog - Detects cartridge calls that never return
+//
+// The cartridge worker reports the init(), update() or draw() call it starts,
+// with its start time, and when it goes idle. A call still running after the
+// budget is considered stuck (usually an infinite loop); main.ts then
+// terminates the worker.
+
+const BUDGET_STORAGE_KEY = 'tinyforge.watchdogBudget';
+const DEFAULT_BUDGET = 500;
+const MIN_BUDGET = 100;
+const MAX_BUDGET = 5000;
+
+class Watchdog {
+  #budget = DEFAULT_BUDGET;
+  #phase = null;      // Cartridge function currently running, null when idle
+  #startedAt = 0;
+
+  constructor() {
+    const stored = parseInt(localStorage.getItem(BUDGET_STORAGE_KEY), 10);
+    if (stored >= MIN_BUDGET && stored <= MAX_BUDGET) {
+      this.#budget = stored;
+    }
+  }
+
+  /**
+   * Get the time a single cartridge call may run
+   * @returns {number} Budget in milliseconds
+   */
+  getBudget() {
+    return this.#budget;
+  }
+
+  /**
+   * Set the budget and persist it
+   * @param ms - Budget in milliseconds (100-5000)
+   */
+  setBudget(ms) {
+    this.#budget = Math.max(MIN_BUDGET, Math.min(MAX_BUDGET, Math.round(ms)));
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(this.#budget));
+  }
+
+  /**
+   * Record the cartridge function that started running
+   * @param phase - 'init', 'update' or 'draw', null once the worker is idle
+   * @param startedAt - Start time as performance.timeOrigin + performance.now() in the worker
+   */
+  setPhase(phase, startedAt) {
+    this.#phase = phase;
+    this.#startedAt = startedAt - performance.timeOrigin;
+  }
+
+  /**
+   * Forget the running call (the worker was replaced)
+   */
+  reset() {
+    this.#phase = null;
+  }
+
+  /**
+   * Get the running call if it exceeded the budget
+   * @returns {string|null} Phase name, or null if nothing is stuck
+   */
+  getExpiredPhase() {
+    if (this.#phase && performance.now() - this.#startedAt > this.#budget) {
+      return this.#phase;
+    }
+    return null;
+  }
+}
+
+export const watchdog = new Watchdog();
@@ -13,11 +13,17 @@ export const FB_START = 0x000000;
 /** Framebuffer size in bytes (320 * 240 * 4 = 307200) */
 export const FB_SIZE = WIDTH * HEIGHT * 4; // 0x04B000
 
+/** Bytes used at FB_START in indexed mode, one palette index per pixel (76800) */
+export const FB_INDEXED_SIZE = WIDTH * HEIGHT;
+
 // === Input Memory Map ===
 
-// Keyboard state is stored at INPUT_ADDR with the following layout:
-//   +0: u8  buttons    - Current button state (bitmask)
-//   +1: u8  prevButtons - Previous button state (for edge detection)
+// Controller state is stored at INPUT_ADDR with the following layout:
+//   +0: u8  buttons     - Player 1 current button state (bitmask)
+//   +1: u8  prevButtons - Player 1 previous button state (for edge detection)
+//   +2: u8  buttons     - Player 2 current button state (bitmask)
+//   +3: u8  prevButtons - Player 2 previous button state (for edge detection)
+// Player N's pair starts at INPUT_ADDR + N * INPUT_PLAYER_STRIDE (N = 0 or 1)
 // Access via buttonDown(), buttonPressed() in input.ts
 
 /** Keyboard input base address */
@@ -29,6 +35,18 @@ export const INPUT_BUTTONS_ADDR = INPUT_ADDR + 0;
 /** Keyboard previous button state address */
 export const INPUT_BUTTONS_PREV_ADDR = INPUT_ADDR + 1;
 
+/** Player 2 current button state address */
+export const INPUT_P2_BUTTONS_ADDR = INPUT_ADDR + 2;
+
+/** Player 2 previous button state address */
+export const INPUT_P2_BUTTONS_PREV_ADDR = INPUT_ADDR + 3;
+
+/** Bytes between the button pairs of consecutive players */
+export const INPUT_PLAYER_STRIDE = 2;
+
+/** Number of controller ports */
+export const INPUT_PLAYER_COUNT = 2;
+
 // Mouse state is stored at MOUSE_ADDR with the following layout:
 //   +0: i16 x          - Mouse X coordinate (0-319, or -1 if outside canvas)
 //   +2: i16 y          - Mouse Y coordinate (0-239, or -1 if outside canvas)
@@ -64,7 +82,7 @@ export const MOUSE_BUTTONS_PREV_ADDR = MOUSE_ADDR + 5;
 // All sprite pixel data is stored sequentially after metadata table
 //
 // Maximum: 256 sprites (IDs 0-255), metadata table = 2048 bytes
-// Sprite data region: ~128 KB available for pixel data
+// Sprite data region: ~107 KB available for pixel data
 
 /** Sprite metadata start address */
 export const SPRITE_METADATA_ADDR = MOUSE_ADDR + 8; // 0x04B010
@@ -75,13 +93,275 @@ export const SPRITE_METADATA_SIZE = 8;
 /** Sprite pixel data start address */
 export const SPRITE_DATA_ADDR = SPRITE_METADATA_ADDR + 256 * SPRITE_METADATA_SIZE;;
 
-/** Maximum sprite data size (~128 KB) */
-export const SPRITE_DATA_SIZE = 0x20000;
+/**
+ * Maximum sprite data size (~107 KB)
+ * Hardware regions are carved from the end of the sprite data so that RAM_START never moves
+ */
+export const SPRITE_DATA_SIZE = 0x1AB90;
+
+// === Save RAM Memory Map ===
+
+// Battery-backed save RAM persisted by the host per cartridge (high scores,
+// unlocks, settings). The host fills it before init() and writes it back to
+// storage when the cartridge sets the dirty flag or calls commitSave().
+// Control register layout at SAVE_CTRL_ADDR:
+//   +0: u8  dirty      - Set to 1 to request a flush, cleared by the host
+// Access via getSaveU8(), setSaveI32(), markSaveDirty(), ... in memory.ts
+
+/** Save RAM control register address */
+export const SAVE_CTRL_ADDR = SPRITE_DATA_ADDR + SPRITE_DATA_SIZE; // 0x0663A0
+
+/** Save RAM dirty flag address */
+export const SAVE_DIRTY_ADDR = SAVE_CTRL_ADDR + 0;
+
+/** Save RAM start address */
+export const SAVE_RAM_ADDR = SAVE_CTRL_ADDR + 16; // 0x0663B0
+
+/** Save RAM size in bytes (4 KB) */
+export const SAVE_RAM_SIZE = 0x1000;
+
+// === Audio Memory Map ===
+
+// Sound effect voice state, owned by the host and saved with the audio
+// registers so voice handles stay valid across save states and rewind.
+// Layout (16 bytes):
+//   +0: u32 next voice  - Handle returned by the next playSfx() (0 = 1)
+
+/** Sound effect voice state address */
+export const SFX_ADDR = SAVE_RAM_ADDR + SAVE_RAM_SIZE; // 0x0673B0
+
+/** Sound effect voice state size in bytes */
+export const SFX_SIZE = 16;
+
+/** Address of the u32 handle the next playSfx() returns */
+export const SFX_NEXT_VOICE_ADDR = SFX_ADDR + 0;
+
+// Synthesizer channel registers, read by the host after every tick.
+// Layout for each channel (8 bytes per channel):
+//   Channel N registers at: AUDIO_ADDR + (N * 8)
+//     +0: u16 frequency   - Pitch in Hz (0 = silent; noise: rate of new random values)
+//     +2: u8  volume      - 0-255
+//     +3: u8  waveform    - 0=square, 1=triangle, 2=sawtooth, 3=noise
+//     +4: u8  duty        - Square pulse width (1-255 = 1/256 steps, 0 = 50%)
+//     +5: u8  attack      - Envelope attack time in ticks (0 = instant)
+//     +6: u8  release     - Envelope release time in ticks (0 = instant)
+//     +7: u8  control     - Bit 0: gate (hold the note), bit 1: trigger
+//                           (restart the envelope, cleared by the host)
+// A trigger without gate plays a one-shot: attack, then release right away.
+// Access via noteOn(), noteOff(), setChannelFrequency(), ... in audio.ts
+
+/** Synthesizer registers base address */
+export const AUDIO_ADDR = SFX_ADDR + SFX_SIZE; // 0x0673C0
+
+/** Synthesizer register block size per channel (8 bytes) */
+export const AUDIO_CHANNEL_SIZE = 8;
+
+/** Number of synthesizer channels */
+export const AUDIO_CHANNEL_COUNT = 4;
+
+/** Synthesizer register block size in bytes */
+export const AUDIO_SIZE = AUDIO_CHANNEL_SIZE * AUDIO_CHANNEL_COUNT;
+
+/** Channel control bit: hold the note while set */
+export const AUDIO_GATE = 1 << 0;
+
+/** Channel control bit: restart the envelope, cleared by the host after the tick */
+export const AUDIO_TRIGGER = 1 << 1;
+
+// Music sequencer status, written by the host before every tick while music
+// plays. Layout (16 bytes):
+//   +0: u8  flags       - Bit 0: playing, bit 1: paused, bit 2: a track is queued
+//   +1: u8  music id    - ID of the playing track
+//   +2: u8  order       - Position in the song's order list (tracker songs)
+//   +3: u8  pattern     - Pattern at that position
+//   +4: u8  row         - Row within the pattern
+//   +5: u8  start order - Order position the tick counter counts from
+//   +6: u8  next order  - Jump requested by setMusicOrder() (0xFF = none)
+//   +7: u8  queued id   - Track queued by queueMusic() (valid if bit 2 is set)
+//   +8: u32 ticks       - Ticks played since the start order
+//   +12: u8 volume      - Volume of the playing track (0-255)
+//   +13: u8 queued volume - Volume of the queued track (0-255)
+// Access via getMusicRow(), getMusicPattern(), ... in audio.ts
+
+/** Music sequencer status address */
+export const MUSIC_ADDR = AUDIO_ADDR + AUDIO_SIZE; // 0x0673E0
+
+/** Music sequencer status size in bytes */
+export const MUSIC_SIZE = 16;
+
+/** Music flag: a track is playing (or paused) */
+export const MUSIC_PLAYING = 1 << 0;
+
+/** Music flag: playback is paused, the position holds */
+export const MUSIC_PAUSED = 1 << 1;
+
+/** Music flag: a track starts when the current one ends */
+export const MUSIC_QUEUED = 1 << 2;
+
+/** Music sequencer "no jump requested" marker */
+export const MUSIC_NO_ORDER = 0xff;
+
+// === Video Memory Map ===
+
+// Video registers, reset by the host before init(). Layout (32 bytes):
+//   +0:  u8  mode       - VIDEO_MODE_RGBA or VIDEO_MODE_INDEXED, from the
+//                         cartridge's `videoMode` export (RGBA without one)
+//   +4:  i32 cameraX    - World position drawn at the top-left of the screen,
+//   +8:  i32 cameraY      subtracted from coordinates by the drawing functions
+//   +16: u16 clipLeft   - Clip rectangle in screen pixels, right and bottom
+//   +18: u16 clipTop      exclusive; drawing functions and clearFramebuffer()
+//   +20: u16 clipRight    only write pixels inside it (the whole screen
+//   +22: u16 clipBottom   after reset)
+// In indexed mode the framebuffer holds one palette index per pixel
+// (FB_INDEXED_SIZE bytes at FB_START) and the host looks every pixel up in
+// the palette when it presents the frame. The palette holds 256 ABGR colors
+// (the format returned by c()), the host fills it with a default palette
+// before init().
+// Access via isIndexedMode(), setPaletteColor(), rotatePalette(), ... in palette.ts
+// setCamera(), shakeCamera(), ... in camera.ts and setClip(), clearClip() in clip.ts
+
+/** Video registers address */
+export const VIDEO_ADDR = MUSIC_ADDR + MUSIC_SIZE; // 0x0673F0
+
+/** Video mode register address */
+export const VIDEO_MODE_ADDR = VIDEO_ADDR + 0;
 
-// Available RAM starts after sprite data
+/** Camera X register address */
+export const CAMERA_X_ADDR = VIDEO_ADDR + 4;
 
-/** Game RAM start address */
-export const RAM_START = SPRITE_DATA_ADDR + SPRITE_DATA_SIZE;
+/** Camera Y register address */
+export const CAMERA_Y_ADDR = VIDEO_ADDR + 8;
 
-/** Game RAM size in bytes (256 KB) */
+/** Clip rectangle left edge register address */
+export const CLIP_LEFT_ADDR = VIDEO_ADDR + 16;
+
+/** Clip rectangle top edge register address */
+export const CLIP_TOP_ADDR = VIDEO_ADDR + 18;
+
+/** Clip rectangle right edge register address (exclusive) */
+export const CLIP_RIGHT_ADDR = VIDEO_ADDR + 20;
+
+/** Clip rectangle bottom edge register address (exclusive) */
+export const CLIP_BOTTOM_ADDR = VIDEO_ADDR + 22;
+
+/** Video registers size in bytes */
+export const VIDEO_SIZE = 32;
+
+/** Video mode: 32-bit ABGR framebuffer */
+export const VIDEO_MODE_RGBA = 0;
+
+/** Video mode: 8-bit palette indexes */
+export const VIDEO_MODE_INDEXED = 1;
+
+/** Palette address (256 entries × 4 bytes, ABGR) */
+export const PALETTE_ADDR = VIDEO_ADDR + VIDEO_SIZE; // 0x067410
+
+/** Number of palette entries */
+export const PALETTE_COLORS = 256;
+
+/** Palette size in bytes */
+export const PALETTE_SIZE = PALETTE_COLORS * 4;
+
+// === Map Memory Map ===
+
+// Tiled maps from assets/maps/, written by the host at startup like sprites.
+// Read-only for the cartridge. Layout:
+//   Map N header at: MAP_ADDR + (N * 16), N = map ID (0-15)
+//     +0:  u16 cols        - Width in tiles (0 = no map with this ID)
+//     +2:  u16 rows        - Height in tiles
+//     +4:  u8  tileWidth   - Tile size in pixels
+//     +5:  u8  tileHeight
+//     +6:  u8  layerCount  - Number of tile layers
+//     +8:  u16 objectCount - Number of objects in all object layers
+//     +12: u32 data        - Address of the tile layers (cols × rows u8 sprite
+//                            IDs each, row by row, 0 = empty), then the objects
+//   MAP_TILE_FLAGS_ADDR: 256 × u8 tile flags per sprite ID, from the
+//     solid/hazard/ladder properties of tileset tiles
+//   Object (MAP_OBJECT_SIZE bytes):
+//     +0: i16 x, +2: i16 y   - Top-left corner in pixels
+//     +4: u16 width, +6: u16 height
+//     +8: u8  type           - ID prefix of the object's class, e.g. "1-coin" = 1
+//     +9: u8  sprite         - Sprite ID of tile objects, 0 otherwise
+//     +10: i16 value         - Integer "value" property, 0 without one
+// Access via getMapCols(), getMapTile(), getMapObject(), loadMap(), ... in maps.ts
+
+/** Map region address */
+export const MAP_ADDR = PALETTE_ADDR + PALETTE_SIZE; // 0x067810
+
+/** Map region size in bytes (16 KB) */
+export const MAP_SIZE = 0x4000;
+
+/** Number of map IDs */
+export const MAP_COUNT = 16;
+
+/** Map header size (16 bytes) */
+export const MAP_HEADER_SIZE = 16;
+
+/** Map tile flags table address (one u8 per sprite ID) */
+export const MAP_TILE_FLAGS_ADDR = MAP_ADDR + MAP_COUNT * MAP_HEADER_SIZE;
+
+/** Map tile layer and object storage address */
+export const MAP_DATA_ADDR = MAP_TILE_FLAGS_ADDR + 256;
+
+/** Map object size (12 bytes) */
+export const MAP_OBJECT_SIZE = 12;
+
+// Available RAM starts after the maps
+
+/** Game RAM start address, part of the cartridge ABI: it must stay at 0x06B810 */
+export const RAM_START = MAP_ADDR + MAP_SIZE; // 0x06B810
+
+/** Game RAM size in bytes (~82 KB) */
 export const RAM_SIZE = 0x80000 - RAM_START;
+
+// === Tilemap Memory Map ===
+
+// Tilemap layers live in the last TILEMAP_SIZE bytes of Game RAM, so they are
+// saved, rewound and replayed with the game state. Cartridges without
+// tilemaps can use the region as normal RAM.
+// Layout:
+//   Layer N header at: TILEMAP_ADDR + (N * 16)
+//     +0: u16 cols        - Width in tiles (0 = layer unused)
+//     +2: u16 rows        - Height in tiles
+//     +4: u8  tileWidth   - Tile size in pixels
+//     +5: u8  tileHeight
+//     +6: u8  flags       - Bit 0: wrap (the layer repeats in both directions)
+//     +8: u32 data        - Address of cols × rows u8 cells, row by row
+//   Cell value: sprite ID drawn in the cell, 0 = empty
+//   TILE_FLAGS_ADDR: 256 × u8 flags per sprite ID (solid, hazard, ladder)
+//   TILEMAP_DATA_ADDR: free space for cells of the layers
+// Access via setTilemapLayer(), getTile(), getTileFlagsAt(), ... in tilemap.ts
+// and drawTilemap() in drawing.ts
+
+/** Tilemap region size in bytes (16 KB) */
+export const TILEMAP_SIZE = 0x4000;
+
+/** Tilemap region address (end of Game RAM) */
+export const TILEMAP_ADDR = RAM_START + RAM_SIZE - TILEMAP_SIZE; // 0x07C000
+
+/** Number of tilemap layers */
+export const TILEMAP_LAYER_COUNT = 4;
+
+/** Tilemap layer header size (16 bytes) */
+export const TILEMAP_LAYER_SIZE = 16;
+
+/** Layer flag: the layer repeats when scrolled past its edges */
+export const TILEMAP_WRAP = 1 << 0;
+
+/** Tile flags table address (one u8 per sprite ID) */
+export const TILE_FLAGS_ADDR = TILEMAP_ADDR + TILEMAP_LAYER_COUNT * TILEMAP_LAYER_SIZE;
+
+/** Tile cell storage address */
+export const TILEMAP_DATA_ADDR = TILE_FLAGS_ADDR + 256;
+
+/** Tile cell storage size in bytes */
+export const TILEMAP_DATA_SIZE = TILEMAP_ADDR + TILEMAP_SIZE - TILEMAP_DATA_ADDR;
+
+/** Tile flag: blocks movement */
+export const TILE_SOLID = 1 << 0;
+
+/** Tile flag: hurts on touch */
+export const TILE_HAZARD = 1 << 1;
+
+/** Tile flag: can be climbed */
+export const TILE_LADDER = 1 << 2;
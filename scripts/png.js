@@ -0,0 +1,166 @@
+// Minimal PNG codec for the headless runner
+// Decodes 8-bit non-interlaced images (grayscale, RGB, palette, with or
+// without alpha) to RGBA and encodes RGBA framebuffers for dumps.
+
+import { deflateSync, inflateSync } from 'zlib';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Bytes per pixel for each supported color type (bit depth 8)
+const CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decode a PNG file to RGBA pixels
+ * @param {Buffer} file - PNG file contents
+ * @returns {{width: number, height: number, data: Uint8ClampedArray}}
+ */
+export function decodePng(file) {
+  if (!file.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette = null;
+  let transparency = null;
+  const idat = [];
+
+  let pos = 8;
+  while (pos < file.length) {
+    const length = file.readUInt32BE(pos);
+    const type = file.toString('latin1', pos + 4, pos + 8);
+    const data = file.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || interlace !== 0 || !(colorType in CHANNELS)) {
+        throw new Error(`Unsupported PNG format (depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const bpp = CHANNELS[colorType];
+  const stride = width * bpp;
+  const raw = inflateSync(Buffer.concat(idat));
+  const pixels = unfilter(raw, stride, height, bpp);
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const src = i * bpp;
+    const dst = i * 4;
+    if (colorType === 6) {
+      rgba.set(pixels.subarray(src, src + 4), dst);
+    } else if (colorType === 2) {
+      rgba[dst] = pixels[src];
+      rgba[dst + 1] = pixels[src + 1];
+      rgba[dst + 2] = pixels[src + 2];
+      rgba[dst + 3] = 255;
+    } else if (colorType === 3) {
+      const index = pixels[src];
+      rgba[dst] = palette[index * 3];
+      rgba[dst + 1] = palette[index * 3 + 1];
+      rgba[dst + 2] = palette[index * 3 + 2];
+      rgba[dst + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else {
+      rgba[dst] = rgba[dst + 1] = rgba[dst + 2] = pixels[src];
+      rgba[dst + 3] = colorType === 4 ? pixels[src + 1] : 255;
+    }
+  }
+
+  return { width, height, data: rgba };
+}
+
+/**
+ * Encode RGBA pixels as a PNG file
+ * @param {number} width - Image width in pixels
+ * @param {number} height - Image height in pixels
+ * @param {Uint8Array} rgba - Pixels (RGBA, 4 bytes per pixel)
+ * @returns {Buffer}
+ */
+export function encodePng(width, height, rgba) {
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // Filter: none
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Reverse the per-scanline filters (none, sub, up, average, paeth)
+function unfilter(raw, stride, height, bpp) {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[row - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? out[row - stride + x - bpp] : 0;
+      let value = line[x];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) value += paeth(a, b, c);
+      out[row + x] = value;
+    }
+  }
+  return out;
+}
+
+function paeth(a, b, c) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type, data) {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, 'latin1');
+  data.copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+}
@@ -0,0 +1,386 @@
+#!/usr/bin/env node
+// Headless cartridge runner and framebuffer golden tests
+// Runs cartridges/*.wasm in Node with the same `env` imports as the browser
+// host (host/cartridge-env.ts), driving init/update/draw with scripted input.
+// Audio is not played: calls are recorded in the audio log (host/audio-log.ts),
+// and music calls drive the music sequencer so getMusicRow() and friends
+// report the same position as in the browser.
+// Sprites, maps and music timings are loaded from assets/ like in the browser.
+// Requires compiled cartridges (npm run build) and host (npm run build:host).
+//
+// Usage:
+//   node scripts/run-cartridge.js <game> [ticks]      - run a game, print the last frame hash
+//   node scripts/run-cartridge.js --check [game...]   - compare frames and audio against goldens/*.json
+//   node scripts/run-cartridge.js --update [game...]  - rewrite frame hashes and audio in goldens/*.json
+//
+// Options:
+//   --dump <dir>  - write a PNG of every checked frame (or the last frame)
+//   --audio       - print the audio log of a run
+//   --verbose     - print cartridge console output
+//
+// Golden file format (goldens/<game>.json):
+//   {
+//     "ticks": 300,                          - number of update() calls
+//     "input": [                             - input held from the tick-th update() (0-based)
+//       { "tick": 0, "buttons": [] },
+//       { "tick": 30, "buttons": ["START"], "mouse": { "x": 10, "y": 20, "buttons": ["LEFT"] } },
+//       { "tick": 40, "buttons": [], "p2": ["LEFT"] }  - "p2": player 2 buttons
+//     ],
+//     "frames": { "0": "<hash>", "300": "<hash>" }, - framebuffer hash after N ticks
+//     "audio": ["12 playMusic(0, 0.4)", ...]        - audio log of the whole run (optional)
+//   }
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { decodePng, encodePng } from './png.js';
+
+// Button bit flags (mirrors Button / MouseButton in sdk/input.ts)
+const BUTTONS = {
+  UP: 1 << 0,
+  DOWN: 1 << 1,
+  LEFT: 1 << 2,
+  RIGHT: 1 << 3,
+  A: 1 << 4,
+  B: 1 << 5,
+  START: 1 << 6
+};
+const MOUSE_BUTTONS = {
+  LEFT: 1 << 0,
+  RIGHT: 1 << 1,
+  MIDDLE: 1 << 2
+};
+
+const GOLDENS_DIR = 'goldens';
+const SPRITES_DIR = 'assets/sprites';
+const MAPS_DIR = 'assets/maps';
+const MUSIC_DIR = 'assets/music';
+const DEFAULT_TICKS = 60;
+const TICK_HZ = 60;
+
+const args = process.argv.slice(2);
+const verbose = takeFlag('--verbose');
+const printAudio = takeFlag('--audio');
+const dumpDir = takeOption('--dump');
+const mode = takeFlag('--check') ? 'check' : takeFlag('--update') ? 'update' : 'run';
+
+// Host modules are compiled by `npm run build:host`
+let host;
+try {
+  host = {
+    env: await import('../host/dist/host/cartridge-env.js'),
+    map: await import('../host/dist/memory-map.js'),
+    assets: await import('../host/dist/host/asset-loader.js'),
+    sprites: await import('../host/dist/host/sprite-manager.js'),
+    maps: await import('../host/dist/host/map-manager.js'),
+    audioLog: await import('../host/dist/host/audio-log.js'),
+    music: await import('../host/dist/host/music-sequencer.js'),
+    tracker: await import('../host/dist/host/tracker.js'),
+    video: await import('../host/dist/host/video.js'),
+    synth: await import('../host/dist/host/synth-registers.js')
+  };
+} catch (e) {
+  console.error(`Failed to load compiled host modules (${e.message})`);
+  console.error('Run `npm run build:host` first');
+  process.exit(1);
+}
+
+const { WIDTH, HEIGHT, FB_START, FB_SIZE, INPUT_ADDR, INPUT_P2_BUTTONS_ADDR, MOUSE_ADDR } = host.map;
+const { AssetLoader } = host.assets;
+const { spriteManager, parseSpriteSheetName } = host.sprites;
+const { mapManager } = host.maps;
+const { audioLog, formatAudioEntry, AUDIO_METHODS } = host.audioLog;
+const { musicSequencer } = host.music;
+const { getVideoMode, resetVideo, isIndexedMode, expandIndexed } = host.video;
+const { resetSynthRegisters, latchSynthRegisters } = host.synth;
+
+loadSprites();
+loadMaps();
+loadMusicTimings();
+
+if (mode === 'run') {
+  const [game, ticks] = args;
+  if (!game) {
+    console.error('Usage: node scripts/run-cartridge.js <game> [ticks]');
+    process.exit(1);
+  }
+  const tickCount = ticks ? parseInt(ticks, 10) : DEFAULT_TICKS;
+  const result = runCartridge(game, { ticks: tickCount, checkpoints: [tickCount] });
+  printLogs(result, true);
+  if (printAudio) printAudioLog(result);
+  if (result.error) {
+    console.error(`✗ ${game}: ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`${game} @ tick ${tickCount}: ${result.frames[tickCount]}`);
+  process.exit(0);
+}
+
+// Check or update goldens
+const games = args.length > 0
+  ? args
+  : readdirSync(GOLDENS_DIR).filter(f => f.endsWith('.json')).map(f => f.replace('.json', ''));
+
+let failed = 0;
+for (const game of games) {
+  const goldenPath = join(GOLDENS_DIR, `${game}.json`);
+  if (!existsSync(goldenPath)) {
+    console.error(`✗ ${game}: no golden file at ${goldenPath}`);
+    failed++;
+    continue;
+  }
+
+  const golden = JSON.parse(readFileSync(goldenPath, 'utf8'));
+  const checkpoints = Object.keys(golden.frames).map(Number);
+  const result = runCartridge(game, {
+    ticks: golden.ticks,
+    input: golden.input,
+    checkpoints
+  });
+  printLogs(result, !!result.error);
+  if (printAudio) printAudioLog(result);
+
+  if (result.error) {
+    console.error(`✗ ${game}: ${result.error}`);
+    failed++;
+    continue;
+  }
+
+  if (mode === 'update') {
+    golden.frames = result.frames;
+    golden.audio = result.audio;
+    writeFileSync(goldenPath, JSON.stringify(golden, null, 2) + '\n');
+    console.log(`✓ ${game} (${checkpoints.length} frames updated)`);
+    continue;
+  }
+
+  const mismatches = checkpoints.filter(tick => golden.frames[tick] !== result.frames[tick]);
+  const audioMismatch = golden.audio ? findMismatch(result.audio, golden.audio) : -1;
+  if (mismatches.length > 0 || audioMismatch !== -1) {
+    for (const tick of mismatches) {
+      console.error(`✗ ${game}: frame at tick ${tick} is ${result.frames[tick]}, expected ${golden.frames[tick]}`);
+    }
+    if (audioMismatch !== -1) {
+      console.error(`✗ ${game}: audio call ${audioMismatch} is "${result.audio[audioMismatch] ?? 'none'}", expected "${golden.audio[audioMismatch] ?? 'none'}"`);
+    }
+    failed++;
+  } else {
+    console.log(`✓ ${game} (${checkpoints.length} frames)`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`\n${failed} cartridge(s) failed`);
+  process.exit(1);
+}
+console.log(mode === 'update' ? '\n✓ Goldens updated' : '\n✓ All goldens match');
+
+/**
+ * Run a cartridge for a number of ticks and hash the framebuffer at checkpoints
+ * @returns {frames: {[tick]: hash}, audio: string[], logs: string[], error: string | null}
+ */
+function runCartridge(game, { ticks, input = [], checkpoints = [] }) {
+  const result = { frames: {}, audio: [], logs: [], error: null };
+  const wasmPath = join('cartridges', `${game}.wasm`);
+  if (!existsSync(wasmPath)) {
+    result.error = `${wasmPath} not found (run \`npm run build\` first)`;
+    return result;
+  }
+
+  const memory = new WebAssembly.Memory({ initial: 16, maximum: 16 });
+  spriteManager.init(memory);
+  spriteManager.writeToMemory();
+  mapManager.init(memory);
+  mapManager.writeToMemory();
+  musicSequencer.init(memory, 1 / TICK_HZ);
+
+  let aborted = false;
+  let tick = 0;
+  audioLog.clear();
+  audioLog.setEnabled(true);
+  const env = host.env.createEnv(memory, {
+    log: (type, message) => result.logs.push(`[${type}] ${message}`),
+    onAbort: () => {
+      aborted = true;
+    },
+    commitSave: () => {}, // Save RAM starts zeroed and is never persisted headless
+    // Recorded instead of played, music calls only move the sequencer
+    audio: audioLog.wrap(
+      Object.fromEntries(AUDIO_METHODS.map(method => [method, (...args) => musicSequencer.follow(method, args)])),
+      () => tick
+    )
+  });
+
+  const module = new WebAssembly.Module(readFileSync(wasmPath));
+  const { exports } = new WebAssembly.Instance(module, { env });
+  const { init, update, draw } = exports;
+
+  const view = new DataView(memory.buffer);
+  const rgbaFb = new Uint8Array(memory.buffer, FB_START, FB_SIZE);
+  const indexedFb = new Uint8Array(FB_SIZE);   // Indexed frames expanded like the browser host does
+  const schedule = [...input].sort((a, b) => a.tick - b.tick);
+  let prevButtons = 0;
+  let prevP2Buttons = 0;
+  let prevMouseButtons = 0;
+
+  const capture = () => {
+    if (!checkpoints.includes(tick)) return;
+    let fb = rgbaFb;
+    if (isIndexedMode(memory)) {
+      expandIndexed(memory, new Uint32Array(indexedFb.buffer));
+      fb = indexedFb;
+    }
+    result.frames[tick] = createHash('sha256').update(fb).digest('hex').slice(0, 16);
+    if (dumpDir) {
+      mkdirSync(dumpDir, { recursive: true });
+      writeFileSync(join(dumpDir, `${game}-${tick}.png`), encodePng(WIDTH, HEIGHT, fb));
+    }
+  };
+
+  try {
+    resetSynthRegisters(memory);
+    host.env.resetVoiceHandles(memory);
+    resetVideo(memory, getVideoMode(exports));
+    init();
+    draw();
+    capture();
+
+    for (tick = 1; tick <= ticks && !aborted; tick++) {
+      const entry = schedule.filter(e => e.tick < tick).pop();
+      const buttons = toMask(entry?.buttons, BUTTONS);
+      const p2Buttons = toMask(entry?.p2, BUTTONS);
+      const mouse = entry?.mouse;
+      const mouseButtons = toMask(mouse?.buttons, MOUSE_BUTTONS);
+
+      // Same layout as the browser host (see runTick() in host/cartridge-worker.ts)
+      view.setUint8(INPUT_ADDR, buttons);
+      view.setUint8(INPUT_ADDR + 1, prevButtons);
+      view.setUint8(INPUT_P2_BUTTONS_ADDR, p2Buttons);
+      view.setUint8(INPUT_P2_BUTTONS_ADDR + 1, prevP2Buttons);
+      view.setInt16(MOUSE_ADDR, mouse ? mouse.x : -1, true);
+      view.setInt16(MOUSE_ADDR + 2, mouse ? mouse.y : -1, true);
+      view.setUint8(MOUSE_ADDR + 4, mouseButtons);
+      view.setUint8(MOUSE_ADDR + 5, prevMouseButtons);
+
+      musicSequencer.advance();
+      update();
+      latchSynthRegisters(memory);
+      prevButtons = buttons;
+      prevP2Buttons = p2Buttons;
+      prevMouseButtons = mouseButtons;
+
+      draw();
+      capture();
+    }
+  } catch (e) {
+    result.error = `error at tick ${tick}: ${e.message}`;
+  }
+
+  if (aborted) {
+    result.error = `aborted at tick ${tick - 1}`;
+  }
+  result.audio = audioLog.getEntries().map(formatAudioEntry);
+  return result;
+}
+
+// Decode sprites from assets/sprites/ into the sprite manager (PNG only)
+function loadSprites() {
+  if (!existsSync(SPRITES_DIR)) return;
+  for (const file of readdirSync(SPRITES_DIR)) {
+    const id = AssetLoader.extractId(file);
+    if (id === null || id > 255) continue;
+    if (!/\.png$/i.test(file)) {
+      if (/\.(jpg|jpeg)$/i.test(file)) console.warn(`Skipping ${file}: JPEG sprites are not supported headless`);
+      continue;
+    }
+    const image = decodePng(readFileSync(join(SPRITES_DIR, file)));
+    const { cols, rows } = parseSpriteSheetName(file);
+    spriteManager.addImage(id, image.width, image.height, image.data, cols, rows, file);
+  }
+}
+
+// Parse Tiled maps from assets/maps/ into the map manager (after the sprites they use)
+function loadMaps() {
+  if (!existsSync(MAPS_DIR)) return;
+  for (const file of readdirSync(MAPS_DIR)) {
+    const id = AssetLoader.extractId(file);
+    if (id === null || id >= host.map.MAP_COUNT || !/\.(tmj|tmx)$/i.test(file)) continue;
+    mapManager.addMap(id, readFileSync(join(MAPS_DIR, file), 'utf8'), file);
+  }
+}
+
+// Give the music sequencer the timing of assets/music/ (tracker songs and WAV files)
+function loadMusicTimings() {
+  if (!existsSync(MUSIC_DIR)) return;
+  const timings = {};
+  for (const file of readdirSync(MUSIC_DIR)) {
+    const id = AssetLoader.extractId(file);
+    if (id === null) continue;
+    const bytes = readFileSync(join(MUSIC_DIR, file));
+    if (/\.song\.json$/i.test(file)) {
+      const timing = host.tracker.getSongTiming(host.tracker.parseSong(JSON.parse(bytes.toString('utf8'))));
+      const rows = timing.order.reduce((sum, pattern) => sum + timing.patternLengths[pattern], 0);
+      timings[id] = { duration: rows * timing.rowDuration, ...timing };
+    } else if (/\.wav$/i.test(file)) {
+      const duration = getWavDuration(bytes);
+      if (duration > 0) timings[id] = { duration };
+      else console.warn(`Skipping ${file}: not a PCM WAV file`);
+    } else if (/\.(mp3|ogg)$/i.test(file)) {
+      console.warn(`Skipping ${file}: only WAV and tracker music is timed headless`);
+    }
+  }
+  musicSequencer.setTimings(timings);
+}
+
+// Length of a PCM WAV file in seconds, from its fmt and data chunks
+function getWavDuration(bytes) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate = 0;
+  for (let pos = 12; pos + 8 <= bytes.length;) {
+    const chunk = bytes.toString('latin1', pos, pos + 4);
+    const size = view.getUint32(pos + 4, true);
+    if (chunk === 'fmt ') byteRate = view.getUint32(pos + 16, true);
+    if (chunk === 'data' && byteRate > 0) return size / byteRate;
+    pos += 8 + size + (size & 1);
+  }
+  return 0;
+}
+
+function toMask(names = [], bits) {
+  return names.reduce((mask, name) => {
+    if (!(name in bits)) throw new Error(`Unknown button ${name}`);
+    return mask | bits[name];
+  }, 0);
+}
+
+function printAudioLog(result) {
+  for (const line of result.audio) console.log(`  ♪ ${line}`);
+}
+
+// Index of the first differing line, -1 if both logs are equal
+function findMismatch(actual, expected) {
+  for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+    if (actual[i] !== expected[i]) return i;
+  }
+  return -1;
+}
+
+function printLogs(result, force) {
+  if (verbose || force) {
+    for (const line of result.logs) console.log(`  ${line}`);
+  }
+}
+
+function takeFlag(name) {
+  const index = args.indexOf(name);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+}
+
+function takeOption(name) {
+  const index = args.indexOf(name);
+  if (index === -1) return null;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
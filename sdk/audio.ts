@@ -1,5 +1,5 @@
 // TinyForge SDK - Audio System
-// Sound effects and music playback functions
+// Sound effects, music playback and synthesizer channels
 //
 // IMPORTANT: Browser Autoplay Policy
 // Audio cannot play until after a user interaction (click, key press, etc.)
@@ -10,23 +10,61 @@
 // - Call playMusic() after user clicks start button or begins gameplay
 // - Sound effects work the same way - require user interaction first
 
+import { AUDIO_ADDR, AUDIO_CHANNEL_SIZE, AUDIO_GATE, AUDIO_TRIGGER, MUSIC_ADDR, MUSIC_PAUSED, MUSIC_PLAYING } from "./memory";
+
 /**
  * Play a sound effect by ID
- * Sound effects can overlap and play simultaneously
+ * Sound effects can overlap and play simultaneously, each on its own voice.
+ * When all voices of the host are busy, the oldest one is cut off.
  * 
  * ⚠️ Requires prior user interaction (click/keypress) due to browser autoplay policy
  * 
  * @param id Sound effect ID (corresponds to assets/sfx/{id}-*.wav file)
  * @param volume Volume level (0.0 to 1.0, default: 1.0)
+ * @param loop Repeat until stopSfx() (engine hums, alarms), default: false
+ * @returns Voice handle for stopSfx(), setSfxPitch(), ... (never 0)
  * 
  * @example
  * ```ts
  * playSfx(0, 1.0);   // Plays sfx/0-jump.wav at full volume
  * playSfx(1, 0.5);   // Plays sfx/1-shoot.wav at half volume
+ * const engine = playSfx(2, 0.4, true);  // Hum until stopSfx(engine)
  * ```
  */
 @external("env", "audio.playSfx")
-export declare function playSfx(id: u32, volume: f32): void;
+export declare function playSfx(id: u32, volume: f32, loop: bool = false): u32;
+
+/**
+ * Stop a playing sound effect
+ * Handles of voices that already ended are ignored
+ * @param voice Handle returned by playSfx()
+ */
+@external("env", "audio.stopSfx")
+export declare function stopSfx(voice: u32): void;
+
+/**
+ * Change the playback rate of a playing sound effect
+ * @param voice Handle returned by playSfx()
+ * @param pitch Rate multiplier (1.0 = original, 2.0 = one octave up, 0.5 = one octave down)
+ */
+@external("env", "audio.setSfxPitch")
+export declare function setSfxPitch(voice: u32, pitch: f32): void;
+
+/**
+ * Move a playing sound effect in the stereo field
+ * @param voice Handle returned by playSfx()
+ * @param pan -1.0 (left) to 1.0 (right), 0.0 = center
+ */
+@external("env", "audio.setSfxPan")
+export declare function setSfxPan(voice: u32, pan: f32): void;
+
+/**
+ * Change the volume of a playing sound effect
+ * @param voice Handle returned by playSfx()
+ * @param volume Volume level (0.0 to 1.0)
+ */
+@external("env", "audio.setSfxVolume")
+export declare function setSfxVolume(voice: u32, volume: f32): void;
 
 /**
  * Play background music by ID
@@ -35,7 +73,7 @@ export declare function playSfx(id: u32, volume: f32): void;
  * ⚠️ Requires prior user interaction (click/keypress) due to browser autoplay policy
  * Call this AFTER user clicks start button, not in init()
  * 
- * @param id Music track ID (corresponds to assets/music/{id}-*.mp3 file)
+ * @param id Music track ID (corresponds to assets/music/{id}-*.mp3 or {id}-*.song.json file)
  * @param volume Volume level (0.0 to 1.0, default: 1.0)
  * 
  * @example
@@ -62,3 +100,198 @@ export declare function playMusic(id: u32, volume: f32): void;
  */
 @external("env", "audio.stopMusic")
 export declare function stopMusic(): void;
+
+/**
+ * Fade the music out, then stop it
+ * isMusicPlaying() returns false as soon as the fade starts
+ * @param frames Fade length in ticks (60 = one second)
+ */
+@external("env", "audio.fadeOutMusic")
+export declare function fadeOutMusic(frames: i32): void;
+
+/**
+ * Fade from the current music to another track
+ * The new track starts right away, the old one fades out over the same time
+ * @param id Music track ID
+ * @param frames Fade length in ticks (60 = one second)
+ * @param volume Volume of the new track (0.0 to 1.0, default: 1.0)
+ */
+@external("env", "audio.crossfadeMusic")
+export declare function crossfadeMusic(id: u32, frames: i32, volume: f32 = 1.0): void;
+
+/**
+ * Play a track as soon as the current music reaches its end (the end of
+ * the current loop), without a gap. Plays right away if nothing plays.
+ * Queuing again replaces the queued track; playMusic() and crossfadeMusic() drop it
+ * @param id Music track ID
+ * @param volume Volume level (0.0 to 1.0, default: 1.0)
+ */
+@external("env", "audio.queueMusic")
+export declare function queueMusic(id: u32, volume: f32 = 1.0): void;
+
+/**
+ * Pause the music, keeping its position
+ */
+@external("env", "audio.pauseMusic")
+export declare function pauseMusic(): void;
+
+/**
+ * Resume paused music where it stopped
+ */
+@external("env", "audio.resumeMusic")
+export declare function resumeMusic(): void;
+
+/**
+ * Check if the music is paused
+ * @returns true between pauseMusic() and resumeMusic()
+ */
+export function isMusicPaused(): bool {
+  return (load<u8>(MUSIC_ADDR) & MUSIC_PAUSED) != 0;
+}
+
+// === Tracker Songs ===
+// Music loaded from .song.json files plays pattern by pattern. The host
+// updates the playback position before every update(), so games can sync
+// gameplay to the beat and pick what plays next.
+//
+// Example:
+// ```ts
+// // Flash on every beat (4 rows per beat)
+// if (getMusicRow() % 4 == 0) flash = 4;
+// // Boss appears: switch to the boss section of the order list
+// setMusicOrder(4);
+// ```
+
+/**
+ * Check if music is playing
+ * @returns true from playMusic() until stopMusic() (or the end of a song that does not loop), also while paused
+ */
+export function isMusicPlaying(): bool {
+  return (load<u8>(MUSIC_ADDR) & MUSIC_PLAYING) != 0;
+}
+
+/**
+ * Get the position of the playing song in its order list
+ * @returns Order list index (0 for audio file music)
+ */
+export function getMusicOrder(): i32 {
+  return load<u8>(MUSIC_ADDR + 2);
+}
+
+/**
+ * Get the pattern the playing song is on
+ * @returns Pattern index (0 for audio file music)
+ */
+export function getMusicPattern(): i32 {
+  return load<u8>(MUSIC_ADDR + 3);
+}
+
+/**
+ * Get the row the playing song is on
+ * @returns Row within the current pattern (0 for audio file music)
+ */
+export function getMusicRow(): i32 {
+  return load<u8>(MUSIC_ADDR + 4);
+}
+
+/**
+ * Jump to another position of the song's order list
+ * The jump happens at the start of the next row, so it stays on the beat
+ * @param position Order list index
+ */
+@external("env", "audio.setMusicOrder")
+export declare function setMusicOrder(position: i32): void;
+
+// === Synthesizer ===
+// 4 channels driven through memory-mapped registers at AUDIO_ADDR, no audio
+// files needed. The host reads the registers after every tick. Same autoplay
+// policy as above: notes are silent until the user interacted with the page.
+//
+// Example:
+// ```ts
+// setChannelWaveform(0, Waveform.SQUARE, 0.25);
+// setChannelEnvelope(0, 0, 8);
+// setChannelVolume(0, 0.6);
+// setChannelFrequency(0, 880);
+// triggerNote(0);  // Short blip: instant attack, 8 tick release
+// ```
+
+/** Synthesizer channel waveforms */
+export enum Waveform {
+  SQUARE = 0,
+  TRIANGLE = 1,
+  SAWTOOTH = 2,
+  NOISE = 3,
+}
+
+@inline
+function channelAddr(channel: i32): usize {
+  return AUDIO_ADDR + (channel as usize) * AUDIO_CHANNEL_SIZE;
+}
+
+/**
+ * Set the pitch of a synthesizer channel
+ * @param channel Channel index (0-3)
+ * @param hz Frequency in Hz (0 = silent); for noise, the rate of new random values
+ */
+export function setChannelFrequency(channel: i32, hz: i32): void {
+  store<u16>(channelAddr(channel), min<i32>(max<i32>(hz, 0), 0xffff) as u16);
+}
+
+/**
+ * Set the volume of a synthesizer channel
+ * @param channel Channel index (0-3)
+ * @param volume Volume level (0.0 to 1.0)
+ */
+export function setChannelVolume(channel: i32, volume: f32): void {
+  store<u8>(channelAddr(channel) + 2, (min<f32>(max<f32>(volume, 0), 1) * 255) as u8);
+}
+
+/**
+ * Set the waveform of a synthesizer channel
+ * @param channel Channel index (0-3)
+ * @param waveform Waveform to play
+ * @param duty Pulse width of the square wave (0.0 to 1.0, default: 0.5)
+ */
+export function setChannelWaveform(channel: i32, waveform: Waveform, duty: f32 = 0.5): void {
+  const addr = channelAddr(channel);
+  store<u8>(addr + 3, waveform as u8);
+  store<u8>(addr + 4, min<f32>(max<f32>(duty * 256, 1), 255) as u8);
+}
+
+/**
+ * Set the volume envelope of a synthesizer channel
+ * @param channel Channel index (0-3)
+ * @param attack Ticks to fade in when a note starts (0 = instant)
+ * @param release Ticks to fade out when a note ends (0 = instant)
+ */
+export function setChannelEnvelope(channel: i32, attack: u8, release: u8): void {
+  const addr = channelAddr(channel);
+  store<u8>(addr + 5, attack);
+  store<u8>(addr + 6, release);
+}
+
+/**
+ * Start a note that holds until noteOff()
+ * @param channel Channel index (0-3)
+ */
+export function noteOn(channel: i32): void {
+  store<u8>(channelAddr(channel) + 7, AUDIO_GATE | AUDIO_TRIGGER);
+}
+
+/**
+ * Release the note of a channel (fades out over the release time)
+ * @param channel Channel index (0-3)
+ */
+export function noteOff(channel: i32): void {
+  const addr = channelAddr(channel) + 7;
+  store<u8>(addr, load<u8>(addr) & ~AUDIO_GATE);
+}
+
+/**
+ * Play a one-shot note: fade in over the attack time, then release right away
+ * @param channel Channel index (0-3)
+ */
+export function triggerNote(channel: i32): void {
+  store<u8>(channelAddr(channel) + 7, AUDIO_TRIGGER);
+}
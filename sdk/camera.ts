@@ -0,0 +1,82 @@
+// TinyForge SDK - Camera
+// World-to-screen offset applied by the drawing functions
+//
+// The camera is the world position drawn at the top-left of the screen.
+// pset(), fillRect(), drawSprite(), drawString(), drawTilemap(), ... subtract
+// it from their coordinates, so games draw in world coordinates instead of
+// subtracting a scroll offset in every call. The ...Screen() variants
+// (fillRectScreen(), drawStringScreen(), ...) ignore it, for HUDs.
+//
+// Example:
+// ```ts
+// setCamera(playerX - WIDTH / 2, 0);
+// shakeCamera(shakeTicks / 4, tick);       // While a shake lasts
+// drawTilemap(0, 0, 0);
+// drawSprite(PLAYER, playerX, playerY);   // World coordinates
+// drawNumberScreen(8, 8, score, WHITE);   // HUD, not moved by the camera
+// ```
+
+import { CAMERA_X_ADDR, CAMERA_Y_ADDR } from "./memory";
+
+/**
+ * Set the camera position
+ * @param x World X coordinate drawn at the left edge of the screen
+ * @param y World Y coordinate drawn at the top edge of the screen
+ */
+export function setCamera(x: i32, y: i32): void {
+  store<i32>(CAMERA_X_ADDR, x);
+  store<i32>(CAMERA_Y_ADDR, y);
+}
+
+/**
+ * Move the camera back to (0, 0), where world and screen coordinates are equal
+ */
+export function resetCamera(): void {
+  setCamera(0, 0);
+}
+
+/**
+ * Get the camera X position
+ * @returns World X coordinate at the left edge of the screen
+ */
+@inline
+export function getCameraX(): i32 {
+  return load<i32>(CAMERA_X_ADDR);
+}
+
+/**
+ * Get the camera Y position
+ * @returns World Y coordinate at the top edge of the screen
+ */
+@inline
+export function getCameraY(): i32 {
+  return load<i32>(CAMERA_Y_ADDR);
+}
+
+/**
+ * Move the camera by a pseudo-random offset, for screen shake
+ * Call after setCamera() on every frame of the shake; the offset only
+ * depends on seed, so a tick counter kept in RAM gives the same shake on replay
+ * @param strength Maximum offset in pixels, in both directions (0 = no shake)
+ * @param seed Picks the offset, e.g. a tick counter
+ * @example
+ * ```ts
+ * // In draw(), with shakeTicks counting down in update()
+ * resetCamera();
+ * if (shakeTicks > 0) shakeCamera(shakeTicks / 4 + 1, tick);
+ * ```
+ */
+export function shakeCamera(strength: i32, seed: u32): void {
+  if (strength <= 0) return;
+
+  // Integer hash of the seed, so consecutive seeds jump around
+  let h = seed * 0x9e3779b1;
+  h ^= h >> 15;
+  h *= 0x85ebca77;
+  h ^= h >> 13;
+
+  const range = (strength * 2 + 1) as u32;
+  const dx = ((h & 0xffff) % range) as i32 - strength;
+  const dy = ((h >> 16) % range) as i32 - strength;
+  setCamera(getCameraX() + dx, getCameraY() + dy);
+}
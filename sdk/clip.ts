@@ -0,0 +1,82 @@
+// TinyForge SDK - Clipping
+// Rectangle of the screen the drawing functions are allowed to write
+//
+// pset(), fillRect(), drawRect(), fillCircle(), drawString(), drawSprite(),
+// drawTilemap(), clearFramebuffer(), ... skip pixels outside the clip
+// rectangle, for split screens, scrolling windows and UI panels. The clip
+// rectangle is in screen pixels: the camera moves what is drawn, not the clip.
+//
+// Example:
+// ```ts
+// setClip(0, 0, WIDTH / 2, HEIGHT);        // Left half: player 1
+// setCamera(p1x - WIDTH / 4, 0);
+// drawTilemap(0, 0, 0);
+// setClip(WIDTH / 2, 0, WIDTH / 2, HEIGHT); // Right half: player 2
+// setCamera(p2x - WIDTH * 3 / 4, 0);
+// drawTilemap(0, 0, 0);
+// clearClip();
+// ```
+
+import { CLIP_LEFT_ADDR, CLIP_TOP_ADDR, CLIP_RIGHT_ADDR, CLIP_BOTTOM_ADDR, WIDTH, HEIGHT } from "./memory";
+
+/**
+ * Restrict drawing to a rectangle of the screen
+ * The rectangle is clamped to the screen, an empty rectangle disables drawing
+ * @param x Left edge in screen pixels
+ * @param y Top edge in screen pixels
+ * @param w Width in pixels
+ * @param h Height in pixels
+ */
+export function setClip(x: i32, y: i32, w: i32, h: i32): void {
+  const left = min(max(x, 0), WIDTH);
+  const top = min(max(y, 0), HEIGHT);
+  const right = max(min(x + max(w, 0), WIDTH), left);
+  const bottom = max(min(y + max(h, 0), HEIGHT), top);
+  store<u16>(CLIP_LEFT_ADDR, left as u16);
+  store<u16>(CLIP_TOP_ADDR, top as u16);
+  store<u16>(CLIP_RIGHT_ADDR, right as u16);
+  store<u16>(CLIP_BOTTOM_ADDR, bottom as u16);
+}
+
+/**
+ * Allow drawing on the whole screen again
+ */
+export function clearClip(): void {
+  setClip(0, 0, WIDTH, HEIGHT);
+}
+
+/**
+ * Get the left edge of the clip rectangle
+ * @returns Screen X coordinate of the first column drawn
+ */
+@inline
+export function getClipX(): i32 {
+  return load<u16>(CLIP_LEFT_ADDR) as i32;
+}
+
+/**
+ * Get the top edge of the clip rectangle
+ * @returns Screen Y coordinate of the first row drawn
+ */
+@inline
+export function getClipY(): i32 {
+  return load<u16>(CLIP_TOP_ADDR) as i32;
+}
+
+/**
+ * Get the width of the clip rectangle
+ * @returns Width in pixels (0 when nothing is drawn)
+ */
+@inline
+export function getClipWidth(): i32 {
+  return load<u16>(CLIP_RIGHT_ADDR) as i32 - getClipX();
+}
+
+/**
+ * Get the height of the clip rectangle
+ * @returns Height in pixels (0 when nothing is drawn)
+ */
+@inline
+export function getClipHeight(): i32 {
+  return load<u16>(CLIP_BOTTOM_ADDR) as i32 - getClipY();
+}
@@ -1,28 +1,81 @@
 // TinyForge SDK - Drawing Primitives
 // Low-level and high-level drawing functions for rendering graphics
+//
+// Colors are ABGR values (see c()), or palette indexes (0-255) when the
+// cartridge runs in indexed mode (see palette.ts).
+//
+// Coordinates are world coordinates: the camera position (see camera.ts) is
+// subtracted before drawing. Each function has a ...Screen() variant taking
+// screen coordinates, for HUDs and overlays.
+//
+// Pixels outside the clip rectangle (see clip.ts, the whole screen by
+// default) are skipped.
 
-import { WIDTH, HEIGHT, SPRITE_METADATA_ADDR, SPRITE_DATA_ADDR } from "./memory";
+import {
+  WIDTH, SPRITE_METADATA_ADDR, SPRITE_DATA_ADDR,
+  CLIP_LEFT_ADDR, CLIP_TOP_ADDR, CLIP_RIGHT_ADDR, CLIP_BOTTOM_ADDR
+} from "./memory";
+import { isIndexedMode } from "./palette";
+import { getCameraX, getCameraY } from "./camera";
+import { getTilemapCols, getTilemapData, getTilemapRows, getTileHeight, getTileWidth, isTilemapWrapped } from "./tilemap";
+
+// Clip rectangle edges in screen pixels, right and bottom exclusive
+@inline
+function clipLeft(): i32 {
+  return load<u16>(CLIP_LEFT_ADDR) as i32;
+}
+
+@inline
+function clipTop(): i32 {
+  return load<u16>(CLIP_TOP_ADDR) as i32;
+}
+
+@inline
+function clipRight(): i32 {
+  return load<u16>(CLIP_RIGHT_ADDR) as i32;
+}
+
+@inline
+function clipBottom(): i32 {
+  return load<u16>(CLIP_BOTTOM_ADDR) as i32;
+}
 
 /**
  * Efficiently clears entire framebuffer using native JS
  * Much faster than a WASM loop for clearing the full screen
- * @param color ABGR color to fill the framebuffer with
+ * Only the clip rectangle is cleared, see setClip()
+ * @param color ABGR color to fill the framebuffer with (palette index in indexed mode)
  */
 @external("env", "clearFramebuffer")
 export declare function clearFramebuffer(color: u32): void;
 
 /**
  * Set a single pixel in the framebuffer
- * Coordinates are clipped to screen bounds
+ * Pixels outside the clip rectangle are skipped
+ * @param x X coordinate
+ * @param y Y coordinate
+ * @param color ABGR color value (palette index in indexed mode)
+ */
+@inline
+export function pset(x: i32, y: i32, color: u32): void {
+  psetScreen(x - getCameraX(), y - getCameraY(), color);
+}
+
+/**
+ * Set a single pixel in the framebuffer, ignoring the camera
  * @param x X coordinate (0-319)
  * @param y Y coordinate (0-239)
- * @param color ABGR color value
+ * @param color ABGR color value (palette index in indexed mode)
  */
 @inline
-export function pset(x: i32, y: i32, color: u32): void {
-  if (x < 0 || x >= WIDTH || y < 0 || y >= HEIGHT) return;
-  const i = (y * WIDTH + x) << 2;
-  store<u32>(i, color | 0xff000000);
+export function psetScreen(x: i32, y: i32, color: u32): void {
+  if (x < clipLeft() || x >= clipRight() || y < clipTop() || y >= clipBottom()) return;
+  const i = y * WIDTH + x;
+  if (isIndexedMode()) {
+    store<u8>(i, color as u8);
+  } else {
+    store<u32>(i << 2, color | 0xff000000);
+  }
 }
 
 /**
@@ -34,9 +87,31 @@ export function pset(x: i32, y: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function fillRect(x: i32, y: i32, w: i32, h: i32, color: u32): void {
-  for (let dy: i32 = 0; dy < h; dy++) {
-    for (let dx: i32 = 0; dx < w; dx++) {
-      pset(x + dx, y + dy, color);
+  fillRectScreen(x - getCameraX(), y - getCameraY(), w, h, color);
+}
+
+/**
+ * Draw a filled rectangle, ignoring the camera
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
+ * @param w Width in pixels
+ * @param h Height in pixels
+ * @param color ABGR color value
+ */
+export function fillRectScreen(x: i32, y: i32, w: i32, h: i32, color: u32): void {
+  // Intersect with the clip rectangle once instead of checking every pixel
+  const left = max(x, clipLeft());
+  const top = max(y, clipTop());
+  const right = min(x + w, clipRight());
+  const bottom = min(y + h, clipBottom());
+  if (left >= right || top >= bottom) return;
+
+  const indexed = isIndexedMode();
+  for (let py = top; py < bottom; py++) {
+    const rowBase = py * WIDTH;
+    for (let px = left; px < right; px++) {
+      if (indexed) store<u8>(rowBase + px, color as u8);
+      else store<u32>((rowBase + px) << 2, color | 0xff000000);
     }
   }
 }
@@ -50,13 +125,25 @@ export function fillRect(x: i32, y: i32, w: i32, h: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function drawRect(x: i32, y: i32, w: i32, h: i32, color: u32): void {
+  drawRectScreen(x - getCameraX(), y - getCameraY(), w, h, color);
+}
+
+/**
+ * Draw a rectangle outline, ignoring the camera
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
+ * @param w Width in pixels
+ * @param h Height in pixels
+ * @param color ABGR color value
+ */
+export function drawRectScreen(x: i32, y: i32, w: i32, h: i32, color: u32): void {
   for (let i: i32 = 0; i < w; i++) {
-    pset(x + i, y, color);
-    pset(x + i, y + h - 1, color);
+    psetScreen(x + i, y, color);
+    psetScreen(x + i, y + h - 1, color);
   }
   for (let i: i32 = 0; i < h; i++) {
-    pset(x, y + i, color);
-    pset(x + w - 1, y + i, color);
+    psetScreen(x, y + i, color);
+    psetScreen(x + w - 1, y + i, color);
   }
 }
 
@@ -68,11 +155,22 @@ export function drawRect(x: i32, y: i32, w: i32, h: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function fillCircle(cx: i32, cy: i32, r: i32, color: u32): void {
+  fillCircleScreen(cx - getCameraX(), cy - getCameraY(), r, color);
+}
+
+/**
+ * Draw a filled circle, ignoring the camera
+ * @param cx Center X coordinate on screen
+ * @param cy Center Y coordinate on screen
+ * @param r Radius in pixels
+ * @param color ABGR color value
+ */
+export function fillCircleScreen(cx: i32, cy: i32, r: i32, color: u32): void {
   const r2 = r * r;
   for (let dy: i32 = -r; dy <= r; dy++) {
     for (let dx: i32 = -r; dx <= r; dx++) {
       if (dx * dx + dy * dy <= r2) {
-        pset(cx + dx, cy + dy, color);
+        psetScreen(cx + dx, cy + dy, color);
       }
     }
   }
@@ -87,6 +185,17 @@ export function fillCircle(cx: i32, cy: i32, r: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function drawDigit(x: i32, y: i32, digit: i32, color: u32): void {
+  drawDigitScreen(x - getCameraX(), y - getCameraY(), digit, color);
+}
+
+/**
+ * Draw a single digit (0-9), ignoring the camera
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
+ * @param digit Digit to draw (0-9)
+ * @param color ABGR color value
+ */
+export function drawDigitScreen(x: i32, y: i32, digit: i32, color: u32): void {
   // Simple 3×5 digit patterns (5 rows, 3 columns each = 15 bits)
   // Each pattern is: row0_row1_row2_row3_row4 (3 bits per row)
   let pattern: u16 = 0;
@@ -124,18 +233,29 @@ export function drawDigit(x: i32, y: i32, digit: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function drawNumber(x: i32, y: i32, num: i32, color: u32): void {
+  drawNumberScreen(x - getCameraX(), y - getCameraY(), num, color);
+}
+
+/**
+ * Draw a number, ignoring the camera (e.g. a score in the HUD)
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
+ * @param num Number to draw
+ * @param color ABGR color value
+ */
+export function drawNumberScreen(x: i32, y: i32, num: i32, color: u32): void {
   let currentX = x;
   
   // Handle negative numbers
   if (num < 0) {
-    drawChar(currentX, y, 45, color); // Draw '-' character
+    drawCharScreen(currentX, y, 45, color); // Draw '-' character
     currentX += 8; // Each character is 6 pixels wide + 2 pixel spacing
     num = -num;
   }
   
   // Handle zero specially
   if (num == 0) {
-    drawDigit(currentX, y, 0, color);
+    drawDigitScreen(currentX, y, 0, color);
     return;
   }
   
@@ -150,7 +270,7 @@ export function drawNumber(x: i32, y: i32, num: i32, color: u32): void {
   // Draw digits from right to left
   for (let i: i32 = digitCount - 1; i >= 0; i--) {
     const digit = num % 10;
-    drawDigit(currentX + i * 8, y, digit, color);
+    drawDigitScreen(currentX + i * 8, y, digit, color);
     num /= 10;
   }
 }
@@ -165,6 +285,17 @@ export function drawNumber(x: i32, y: i32, num: i32, color: u32): void {
  * @param color ABGR color value
  */
 export function drawChar(x: i32, y: i32, char: i32, color: u32): void {
+  drawCharScreen(x - getCameraX(), y - getCameraY(), char, color);
+}
+
+/**
+ * Draw a single character, ignoring the camera
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
+ * @param char ASCII character code
+ * @param color ABGR color value
+ */
+export function drawCharScreen(x: i32, y: i32, char: i32, color: u32): void {
   // 3×5 character patterns for uppercase letters and symbols
   let pattern: u16 = 0;
 
@@ -239,15 +370,15 @@ export function drawChar(x: i32, y: i32, char: i32, color: u32): void {
   } else {
     // Try with digits '0'-'9'
     const digit = char - 48;
-    drawDigit(x, y, digit, color);
+    drawDigitScreen(x, y, digit, color);
   }
 }
 
 /**
  * Draw a 3×5 bitmap pattern with each bit rendered as a 2×2 pixel block
  * Used internally by drawChar and drawNumber
- * @param x Top-left X coordinate
- * @param y Top-left Y coordinate
+ * @param x Top-left X coordinate on screen
+ * @param y Top-left Y coordinate on screen
  * @param pattern 15-bit pattern (3 bits × 5 rows)
  * @param color ABGR color value
  */
@@ -257,10 +388,10 @@ function draw3x5Pattern(x: i32, y: i32, pattern: u16, color: u32): void {
       const bitPos = ((4 - dy) * 3 + (2 - dx)) as u16;
       const bit = (pattern >> bitPos) & 1;
       if (bit) {
-        pset(x + dx * 2, y + dy * 2, color);
-        pset(x + dx * 2 + 1, y + dy * 2, color);
-        pset(x + dx * 2, y + dy * 2 + 1, color);
-        pset(x + dx * 2 + 1, y + dy * 2 + 1, color);
+        psetScreen(x + dx * 2, y + dy * 2, color);
+        psetScreen(x + dx * 2 + 1, y + dy * 2, color);
+        psetScreen(x + dx * 2, y + dy * 2 + 1, color);
+        psetScreen(x + dx * 2 + 1, y + dy * 2 + 1, color);
       }
     }
   }
@@ -275,16 +406,75 @@ function draw3x5Pattern(x: i32, y: i32, pattern: u16, color: u32): void {
  * @param color ABGR color value
  */
 export function drawString(x: i32, y: i32, text: string, color: u32): void {
+  drawStringScreen(x - getCameraX(), y - getCameraY(), text, color);
+}
+
+/**
+ * Draw a string of text, ignoring the camera (e.g. HUD labels)
+ * @param x Starting X coordinate on screen
+ * @param y Starting Y coordinate on screen
+ * @param text String to draw
+ * @param color ABGR color value
+ */
+export function drawStringScreen(x: i32, y: i32, text: string, color: u32): void {
   const len = text.length;
   for (let i: i32 = 0; i < len; i++) {
     const charCode = text.charCodeAt(i);
-    drawChar(x + i * 8, y, charCode, color);
+    drawCharScreen(x + i * 8, y, charCode, color);
   }
 }
 
+// Write one sprite pixel to the framebuffer: skipped when transparent,
+// alpha-blended when semi-transparent (thresholded in indexed mode)
+@inline
+function blendSpritePixel(fbIndex: usize, srcPixel: u32, indexed: bool): void {
+  const srcA = (srcPixel >> 24) & 0xff;
+
+  // Skip fully transparent pixels
+  if (srcA == 0) return;
+
+  if (indexed) {
+    if (srcA >= 128) store<u8>(fbIndex, srcPixel as u8);
+    return;
+  }
+  const fbAddr = fbIndex << 2;
+
+  // If fully opaque, write directly
+  if (srcA == 255) {
+    store<u32>(fbAddr, srcPixel | 0xff000000);
+    return;
+  }
+
+  // Alpha blending required
+  const dstPixel = load<u32>(fbAddr);
+
+  // Extract source RGB from loaded pixel
+  const srcR = srcPixel & 0xff;
+  const srcG = (srcPixel >> 8) & 0xff;
+  const srcB = (srcPixel >> 16) & 0xff;
+
+  // Extract destination RGB from ABGR format
+  const dstR = dstPixel & 0xff;
+  const dstG = (dstPixel >> 8) & 0xff;
+  const dstB = (dstPixel >> 16) & 0xff;
+
+  // Blend using bit shift approximation: (x * a + 128) >> 8 ≈ x * a / 255
+  const invAlpha = 255 - srcA;
+
+  const blendR = ((srcR * srcA + dstR * invAlpha + 128) >> 8) as u8;
+  const blendG = ((srcG * srcA + dstG * invAlpha + 128) >> 8) as u8;
+  const blendB = ((srcB * srcA + dstB * invAlpha + 128) >> 8) as u8;
+
+  // Store blended pixel in ABGR format
+  const blended = (blendR as u32) | ((blendG as u32) << 8) | ((blendB as u32) << 16);
+  store<u32>(fbAddr, blended | 0xff000000);
+}
+
 /**
  * Draw a sprite at the specified position
  * Supports alpha blending for semi-transparent sprites
+ * In indexed mode the red channel of each pixel is its palette index and
+ * pixels with alpha below 128 are transparent (no blending)
  * @param id Sprite ID
  * @param x X coordinate (top-left)
  * @param y Y coordinate (top-left)
@@ -297,6 +487,64 @@ export function drawString(x: i32, y: i32, text: string, color: u32): void {
  * ```
  */
 export function drawSprite(id: u32, x: i32, y: i32, flipX: bool = false, flipY: bool = false): void {
+  drawSpriteScreen(id, x - getCameraX(), y - getCameraY(), flipX, flipY);
+}
+
+/**
+ * Draw a sprite, ignoring the camera
+ * @param id Sprite ID
+ * @param x X coordinate on screen (top-left)
+ * @param y Y coordinate on screen (top-left)
+ * @param flipX Whether to flip the sprite horizontally (default: false)
+ * @param flipY Whether to flip the sprite vertically (default: false)
+ */
+export function drawSpriteScreen(id: u32, x: i32, y: i32, flipX: bool = false, flipY: bool = false): void {
+  const metadataAddr = SPRITE_METADATA_ADDR + (id as usize) * 8;
+  const width = load<u16>(metadataAddr) as i32;
+  const height = load<u16>(metadataAddr + 2) as i32;
+  drawSpriteRegionScreen(id, x, y, 0, 0, width, height, flipX, flipY);
+}
+
+/**
+ * Draw a rectangle of a sprite, e.g. a frame of a strip or a partly filled bar
+ * The rectangle is clamped to the sprite; flipping mirrors the rectangle in place
+ * @param id Sprite ID
+ * @param x X coordinate (top-left of the rectangle)
+ * @param y Y coordinate (top-left of the rectangle)
+ * @param srcX Left edge of the rectangle in sprite pixels
+ * @param srcY Top edge of the rectangle in sprite pixels
+ * @param srcW Width of the rectangle in pixels
+ * @param srcH Height of the rectangle in pixels
+ * @param flipX Whether to flip horizontally (default: false)
+ * @param flipY Whether to flip vertically (default: false)
+ * @example
+ * ```typescript
+ * drawSpriteRegion(HEALTH_BAR, 8, 8, 0, 0, health, 6); // Left part of the bar
+ * ```
+ */
+export function drawSpriteRegion(
+  id: u32, x: i32, y: i32, srcX: i32, srcY: i32, srcW: i32, srcH: i32,
+  flipX: bool = false, flipY: bool = false
+): void {
+  drawSpriteRegionScreen(id, x - getCameraX(), y - getCameraY(), srcX, srcY, srcW, srcH, flipX, flipY);
+}
+
+/**
+ * Draw a rectangle of a sprite, ignoring the camera
+ * @param id Sprite ID
+ * @param x X coordinate on screen (top-left of the rectangle)
+ * @param y Y coordinate on screen (top-left of the rectangle)
+ * @param srcX Left edge of the rectangle in sprite pixels
+ * @param srcY Top edge of the rectangle in sprite pixels
+ * @param srcW Width of the rectangle in pixels
+ * @param srcH Height of the rectangle in pixels
+ * @param flipX Whether to flip horizontally (default: false)
+ * @param flipY Whether to flip vertically (default: false)
+ */
+export function drawSpriteRegionScreen(
+  id: u32, x: i32, y: i32, srcX: i32, srcY: i32, srcW: i32, srcH: i32,
+  flipX: bool = false, flipY: bool = false
+): void {
   // Read sprite metadata
   const metadataAddr = SPRITE_METADATA_ADDR + (id as usize) * 8;
   const width = load<u16>(metadataAddr) as i32;
@@ -306,70 +554,180 @@ export function drawSprite(id: u32, x: i32, y: i32, flipX: bool = false, flipY:
   // Early exit if sprite has no size (not loaded)
   if (width == 0 || height == 0) return;
 
-  // Calculate visible region (clip to screen bounds)
-  const startX = max(0, -x);
-  const startY = max(0, -y);
-  const endX = min(width, WIDTH - x);
-  const endY = min(height, HEIGHT - y);
+  // Calculate visible region: inside the clip rectangle and inside the sprite
+  // (dx, dy are offsets in the drawn rectangle, flipping reverses the source)
+  const startX = max(max(0, clipLeft() - x), flipX ? srcX + srcW - width : -srcX);
+  const startY = max(max(0, clipTop() - y), flipY ? srcY + srcH - height : -srcY);
+  const endX = min(min(srcW, clipRight() - x), flipX ? srcX + srcW : width - srcX);
+  const endY = min(min(srcH, clipBottom() - y), flipY ? srcY + srcH : height - srcY);
 
-  // Early exit if sprite is completely off-screen
+  // Early exit if sprite is completely clipped
   if (startX >= endX || startY >= endY) return;
 
   // Draw sprite pixels (only visible region)
   const spriteDataAddr = SPRITE_DATA_ADDR + dataOffset;
 
-  let rowOffset = startY * width;
+  let rowOffset = (srcY + startY) * width;
   let fbRowBase = ((y + startY) * WIDTH) as usize;
+  const indexed = isIndexedMode();
 
   for (let dy: i32 = startY; dy < endY; dy++) {
     // Calculate source row offset (use incremental for non-flipped, multiply for flipped)
-    const srcRowOffset = flipY ? ((height - 1 - dy) * width) : rowOffset;
-    
+    const srcRowOffset = flipY ? ((srcY + srcH - 1 - dy) * width) : rowOffset;
+
     for (let dx: i32 = startX; dx < endX; dx++) {
       // Calculate source column (no cost for non-flipped)
-      const srcX = flipX ? (width - 1 - dx) : dx;
-      const pixelAddr = spriteDataAddr + ((srcRowOffset + srcX) << 2) as usize;
-      const srcPixel = load<u32>(pixelAddr);
-      
-      const srcA = (srcPixel >> 24) & 0xff;
-
-      // Skip fully transparent pixels
-      if (srcA == 0) continue;
-
-      const screenX = x + dx;
-      const fbAddr = (fbRowBase + screenX as usize) << 2;
-
-      // If fully opaque, write directly
-      if (srcA == 255) {
-        store<u32>(fbAddr, srcPixel | 0xff000000);
-      } else {
-        // Alpha blending required
-        const dstPixel = load<u32>(fbAddr);
-
-        // Extract source RGB from loaded pixel
-        const srcR = srcPixel & 0xff;
-        const srcG = (srcPixel >> 8) & 0xff;
-        const srcB = (srcPixel >> 16) & 0xff;
-
-        // Extract destination RGB from ABGR format
-        const dstR = dstPixel & 0xff;
-        const dstG = (dstPixel >> 8) & 0xff;
-        const dstB = (dstPixel >> 16) & 0xff;
-
-        // Blend using bit shift approximation: (x * a + 128) >> 8 ≈ x * a / 255
-        const invAlpha = 255 - srcA;
-
-        const blendR = ((srcR * srcA + dstR * invAlpha + 128) >> 8) as u8;
-        const blendG = ((srcG * srcA + dstG * invAlpha + 128) >> 8) as u8;
-        const blendB = ((srcB * srcA + dstB * invAlpha + 128) >> 8) as u8;
-
-        // Store blended pixel in ABGR format
-        const blended = (blendR as u32) | ((blendG as u32) << 8) | ((blendB as u32) << 16);
-        store<u32>(fbAddr, blended | 0xff000000);
-      }
+      const srcCol = flipX ? (srcX + srcW - 1 - dx) : srcX + dx;
+      const srcPixel = load<u32>(spriteDataAddr + ((srcRowOffset + srcCol) << 2) as usize);
+      blendSpritePixel(fbRowBase + (x + dx) as usize, srcPixel, indexed);
     }
-    
+
     rowOffset += width;
     fbRowBase += WIDTH as usize;
   }
 }
+
+/**
+ * Draw a sprite scaled and rotated around an origin point
+ * Pixels are sampled nearest-neighbour and blended like drawSprite()
+ * @param id Sprite ID
+ * @param x X coordinate the origin point is drawn at
+ * @param y Y coordinate the origin point is drawn at
+ * @param scaleX Horizontal scale (1 = original size, negative flips)
+ * @param scaleY Vertical scale (1 = original size, negative flips)
+ * @param angle Clockwise rotation in radians
+ * @param originX Origin X in sprite pixels, the point scaled and rotated around
+ * @param originY Origin Y in sprite pixels
+ * @example
+ * ```typescript
+ * // Ship rotating around its center
+ * drawSpriteEx(SHIP, shipX, shipY, 1, 1, shipAngle, 16, 16);
+ * // Boss at twice the size, standing on y = 200
+ * drawSpriteEx(BOSS, bossX, 200, 2, 2, 0, 16, 32);
+ * ```
+ */
+export function drawSpriteEx(
+  id: u32, x: i32, y: i32, scaleX: f32, scaleY: f32, angle: f32, originX: i32, originY: i32
+): void {
+  drawSpriteExScreen(id, x - getCameraX(), y - getCameraY(), scaleX, scaleY, angle, originX, originY);
+}
+
+/**
+ * Draw a sprite scaled and rotated around an origin point, ignoring the camera
+ * @param id Sprite ID
+ * @param x X coordinate on screen the origin point is drawn at
+ * @param y Y coordinate on screen the origin point is drawn at
+ * @param scaleX Horizontal scale (1 = original size, negative flips)
+ * @param scaleY Vertical scale (1 = original size, negative flips)
+ * @param angle Clockwise rotation in radians
+ * @param originX Origin X in sprite pixels, the point scaled and rotated around
+ * @param originY Origin Y in sprite pixels
+ */
+export function drawSpriteExScreen(
+  id: u32, x: i32, y: i32, scaleX: f32, scaleY: f32, angle: f32, originX: i32, originY: i32
+): void {
+  const metadataAddr = SPRITE_METADATA_ADDR + (id as usize) * 8;
+  const width = load<u16>(metadataAddr) as i32;
+  const height = load<u16>(metadataAddr + 2) as i32;
+  const dataOffset = load<u32>(metadataAddr + 4);
+  if (width == 0 || height == 0 || scaleX == 0 || scaleY == 0) return;
+
+  const cos = Mathf.cos(angle);
+  const sin = Mathf.sin(angle);
+
+  // Screen bounding box of the transformed sprite: scale the corners
+  // relative to the origin, then rotate them
+  const ax = (-originX as f32) * scaleX;
+  const bx = ((width - originX) as f32) * scaleX;
+  const ay = (-originY as f32) * scaleY;
+  const by = ((height - originY) as f32) * scaleY;
+  const x0 = ax * cos - ay * sin, y0 = ax * sin + ay * cos;
+  const x1 = bx * cos - ay * sin, y1 = bx * sin + ay * cos;
+  const x2 = ax * cos - by * sin, y2 = ax * sin + by * cos;
+  const x3 = bx * cos - by * sin, y3 = bx * sin + by * cos;
+  const left = max(x + (Mathf.floor(min(min(x0, x1), min(x2, x3))) as i32), clipLeft());
+  const top = max(y + (Mathf.floor(min(min(y0, y1), min(y2, y3))) as i32), clipTop());
+  const right = min(x + (Mathf.ceil(max(max(x0, x1), max(x2, x3))) as i32), clipRight());
+  const bottom = min(y + (Mathf.ceil(max(max(y0, y1), max(y2, y3))) as i32), clipBottom());
+  if (left >= right || top >= bottom) return;
+
+  // Inverse transform: sprite coordinates change by a constant step per
+  // screen pixel, so only the first pixel of each row is transformed
+  const uStepX = cos / scaleX, vStepX = -sin / scaleY;
+  const uStepY = sin / scaleX, vStepY = cos / scaleY;
+  const fx = (left - x) as f32 + 0.5;
+  let fy = (top - y) as f32 + 0.5;
+
+  const spriteDataAddr = SPRITE_DATA_ADDR + dataOffset;
+  const indexed = isIndexedMode();
+
+  for (let py = top; py < bottom; py++, fy += 1) {
+    // Sample at pixel centers
+    let u = fx * uStepX + fy * uStepY + (originX as f32);
+    let v = fx * vStepX + fy * vStepY + (originY as f32);
+    const fbRowBase = (py * WIDTH) as usize;
+
+    for (let px = left; px < right; px++, u += uStepX, v += vStepX) {
+      if (u < 0 || v < 0) continue;
+      const srcX = u as i32;
+      const srcY = v as i32;
+      if (srcX >= width || srcY >= height) continue;
+
+      const srcPixel = load<u32>(spriteDataAddr + ((srcY * width + srcX) << 2) as usize);
+      blendSpritePixel(fbRowBase + px as usize, srcPixel, indexed);
+    }
+  }
+}
+
+/**
+ * Draw a tilemap layer (see tilemap.ts)
+ * Only the cells on screen are visited; each tile is drawn like drawSprite()
+ * @param layer Layer index (0-3)
+ * @param scrollX Scroll added to the camera, layer pixel X at the camera's left edge
+ * @param scrollY Scroll added to the camera, layer pixel Y at the camera's top edge
+ * @example
+ * ```typescript
+ * setCamera(playerX - WIDTH / 2, 0);
+ * drawTilemap(1, -getCameraX() / 2, 0); // Background layer, half speed parallax
+ * drawTilemap(0, 0, 0);                 // Level layer, in world coordinates
+ * ```
+ */
+export function drawTilemap(layer: i32, scrollX: i32, scrollY: i32): void {
+  scrollX += getCameraX();
+  scrollY += getCameraY();
+  const cols = getTilemapCols(layer);
+  const rows = getTilemapRows(layer);
+  const tileWidth = getTileWidth(layer);
+  const tileHeight = getTileHeight(layer);
+  if (cols == 0 || rows == 0 || tileWidth == 0 || tileHeight == 0) return;
+  const data = getTilemapData(layer);
+  const wrap = isTilemapWrapped(layer);
+
+  // First visible cell and where it lands on screen (floor division for negative scroll)
+  let firstCol = scrollX / tileWidth;
+  if (scrollX % tileWidth < 0) firstCol--;
+  let firstRow = scrollY / tileHeight;
+  if (scrollY % tileHeight < 0) firstRow--;
+  const originX = firstCol * tileWidth - scrollX;
+  const originY = firstRow * tileHeight - scrollY;
+
+  const right = clipRight();
+  const bottom = clipBottom();
+  for (let screenY = originY, row = firstRow; screenY < bottom; screenY += tileHeight, row++) {
+    let cellRow = row;
+    if (wrap) cellRow = ((row % rows) + rows) % rows;
+    else if (row < 0) continue;
+    else if (row >= rows) break;
+    const rowAddr = data + (cellRow * cols) as usize;
+
+    for (let screenX = originX, col = firstCol; screenX < right; screenX += tileWidth, col++) {
+      let cellCol = col;
+      if (wrap) cellCol = ((col % cols) + cols) % cols;
+      else if (col < 0) continue;
+      else if (col >= cols) break;
+
+      const tile = load<u8>(rowAddr + cellCol as usize);
+      if (tile != 0) drawSpriteScreen(tile, screenX, screenY);
+    }
+  }
+}
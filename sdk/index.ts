@@ -9,6 +9,11 @@ export * from "./memory";
 export * from "./input";
 export * from "./logging";
 export * from "./color";
+export * from "./palette";
+export * from "./camera";
+export * from "./clip";
 export * from "./drawing";
+export * from "./tilemap";
+export * from "./maps";
 export * from "./utility";
 export * from "./audio";
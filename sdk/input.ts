@@ -2,9 +2,11 @@
 // Keyboard and mouse input via memory-mapped I/O
 //
 // Input State Memory Layout:
-//   0x0AB000: Keyboard input (2 bytes)
-//     +0: u8  buttons     - Current button state (bitmask)
-//     +1: u8  prevButtons - Previous button state (for edge detection)
+//   0x0AB000: Controller input (4 bytes)
+//     +0: u8  buttons     - Player 1 current button state (bitmask)
+//     +1: u8  prevButtons - Player 1 previous button state (for edge detection)
+//     +2: u8  buttons     - Player 2 current button state (bitmask)
+//     +3: u8  prevButtons - Player 2 previous button state (for edge detection)
 //
 //   0x0AB010: Mouse input (6 bytes)
 //     +0: i16 x          - Mouse X (0-319, or -1 if outside)
@@ -15,10 +17,12 @@
 // Usage:
 //   - Use buttonDown() / mouseDown() for continuous actions (held buttons)
 //   - Use buttonPressed() / mousePressed() for one-time actions (button just pressed)
+//   - Pass a player index (0 = player 1, 1 = player 2) to read the second controller
 
 import {
   INPUT_BUTTONS_ADDR,
   INPUT_BUTTONS_PREV_ADDR,
+  INPUT_PLAYER_STRIDE,
   MOUSE_X_ADDR,
   MOUSE_Y_ADDR,
   MOUSE_BUTTONS_ADDR,
@@ -58,22 +62,28 @@ export enum MouseButton {
 /**
  * Check if a button is currently held down
  * @param button Button bit flag to check
+ * @param player Controller port (0 = player 1, 1 = player 2)
  * @returns true if the button is currently pressed
  * @example
  * ```typescript
  * if (buttonDown(Button.A)) {
  *   // A button is being held
  * }
+ * if (buttonDown(Button.LEFT, 1)) {
+ *   // Player 2 is holding left
+ * }
  * ```
  */
 @inline
-export function buttonDown(button: Button): bool {
-  return (load<u8>(INPUT_BUTTONS_ADDR) & button) != 0;
+export function buttonDown(button: Button, player: i32 = 0): bool {
+  const offset = (player as usize) * INPUT_PLAYER_STRIDE;
+  return (load<u8>(INPUT_BUTTONS_ADDR + offset) & button) != 0;
 }
 
 /**
  * Check if a button was just pressed this frame (rising edge)
  * @param button Button bit flag to check
+ * @param player Controller port (0 = player 1, 1 = player 2)
  * @returns true if the button was pressed this frame
  * @example
  * ```typescript
@@ -83,9 +93,10 @@ export function buttonDown(button: Button): bool {
  * ```
  */
 @inline
-export function buttonPressed(button: Button): bool {
-  const current = load<u8>(INPUT_BUTTONS_ADDR);
-  const prev = load<u8>(INPUT_BUTTONS_PREV_ADDR);
+export function buttonPressed(button: Button, player: i32 = 0): bool {
+  const offset = (player as usize) * INPUT_PLAYER_STRIDE;
+  const current = load<u8>(INPUT_BUTTONS_ADDR + offset);
+  const prev = load<u8>(INPUT_BUTTONS_PREV_ADDR + offset);
   return (current & button) != 0 && (prev & button) == 0;
 }
 
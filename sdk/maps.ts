@@ -0,0 +1,187 @@
+// TinyForge SDK - Maps
+// Read-only access to Tiled maps loaded from assets/maps/
+//
+// The host loads `{ID}-name.tmj` / `.tmx` files into the map region (see
+// MAP_ADDR in memory-map.ts) before init(). Tiles are sprite IDs like in
+// tilemap.ts, and object layers become a list of MapObjects (spawn points,
+// triggers, ...) whose type is the ID prefix of their class in Tiled.
+//
+// Example:
+// ```ts
+// loadMap(0, 0, 0);                              // Map 0's first layer into tilemap layer 0
+// const spawn = findMapObject(0, OBJ_PLAYER);
+// if (spawn >= 0) { px = getMapObject(0, spawn).x; }
+// ```
+
+import { MAP_ADDR, MAP_HEADER_SIZE, MAP_OBJECT_SIZE, MAP_TILE_FLAGS_ADDR, TILEMAP_DATA_ADDR } from "./memory";
+import { getTileFlags, setTileFlags, setTilemapLayer } from "./tilemap";
+
+/** An object of a map's object layers, see getMapObject() */
+@unmanaged
+export class MapObject {
+  /** Left edge in pixels */
+  x: i16;
+
+  /** Top edge in pixels */
+  y: i16;
+
+  /** Width in pixels (0 for points) */
+  width: u16;
+
+  /** Height in pixels (0 for points) */
+  height: u16;
+
+  /** ID prefix of the object's class, e.g. "1-coin" = 1 */
+  type: u8;
+
+  /** Sprite ID of tile objects, 0 otherwise */
+  sprite: u8;
+
+  /** Integer "value" property, 0 without one */
+  value: i16;
+}
+
+@inline
+function headerAddr(map: i32): usize {
+  return MAP_ADDR + (map as usize) * MAP_HEADER_SIZE;
+}
+
+/**
+ * Check if a map with this ID was loaded
+ * @param map Map ID (0-15)
+ */
+export function hasMap(map: i32): bool {
+  return getMapCols(map) != 0;
+}
+
+/**
+ * Get the width of a map
+ * @param map Map ID (0-15)
+ * @returns Width in tiles (0 if there is no such map)
+ */
+export function getMapCols(map: i32): i32 {
+  return load<u16>(headerAddr(map)) as i32;
+}
+
+/**
+ * Get the height of a map
+ * @param map Map ID (0-15)
+ * @returns Height in tiles
+ */
+export function getMapRows(map: i32): i32 {
+  return load<u16>(headerAddr(map) + 2) as i32;
+}
+
+/**
+ * Get the tile width of a map
+ * @param map Map ID (0-15)
+ * @returns Tile width in pixels
+ */
+export function getMapTileWidth(map: i32): i32 {
+  return load<u8>(headerAddr(map) + 4) as i32;
+}
+
+/**
+ * Get the tile height of a map
+ * @param map Map ID (0-15)
+ * @returns Tile height in pixels
+ */
+export function getMapTileHeight(map: i32): i32 {
+  return load<u8>(headerAddr(map) + 5) as i32;
+}
+
+/**
+ * Get the number of tile layers of a map
+ * @param map Map ID (0-15)
+ * @returns Layer count, layers are numbered in Tiled's drawing order
+ */
+export function getMapLayerCount(map: i32): i32 {
+  return load<u8>(headerAddr(map) + 6) as i32;
+}
+
+/**
+ * Get the number of objects of a map
+ * @param map Map ID (0-15)
+ * @returns Object count of all object layers together
+ */
+export function getMapObjectCount(map: i32): i32 {
+  return load<u16>(headerAddr(map) + 8) as i32;
+}
+
+// Address of a tile layer's cells
+@inline
+function layerData(map: i32, layer: i32): usize {
+  const cells = (getMapCols(map) * getMapRows(map)) as usize;
+  return (load<u32>(headerAddr(map) + 12) as usize) + (layer as usize) * cells;
+}
+
+/**
+ * Get a tile of a map
+ * @param map Map ID (0-15)
+ * @param layer Tile layer index
+ * @param col Column
+ * @param row Row
+ * @returns Sprite ID, 0 for empty cells and cells outside the map
+ */
+export function getMapTile(map: i32, layer: i32, col: i32, row: i32): u8 {
+  const cols = getMapCols(map);
+  if (layer < 0 || layer >= getMapLayerCount(map)) return 0;
+  if (col < 0 || col >= cols || row < 0 || row >= getMapRows(map)) return 0;
+  return load<u8>(layerData(map, layer) + (row * cols + col) as usize);
+}
+
+/**
+ * Get an object of a map
+ * The object is a view of map memory, read its fields but do not modify them
+ * @param map Map ID (0-15)
+ * @param index Object index (0 to getMapObjectCount() - 1)
+ * @returns The object, in the order of Tiled's object layers
+ */
+export function getMapObject(map: i32, index: i32): MapObject {
+  const objects = layerData(map, getMapLayerCount(map));
+  return changetype<MapObject>(objects + (index as usize) * MAP_OBJECT_SIZE);
+}
+
+/**
+ * Find the next object of a type
+ * @param map Map ID (0-15)
+ * @param type Object type
+ * @param start Index to start searching at (default: 0)
+ * @returns Object index, -1 if there is none
+ * @example
+ * ```ts
+ * for (let i = findMapObject(0, OBJ_COIN); i >= 0; i = findMapObject(0, OBJ_COIN, i + 1)) {
+ *   const coin = getMapObject(0, i);
+ * }
+ * ```
+ */
+export function findMapObject(map: i32, type: u8, start: i32 = 0): i32 {
+  const count = getMapObjectCount(map);
+  for (let i = max(start, 0); i < count; i++) {
+    if (getMapObject(map, i).type == type) return i;
+  }
+  return -1;
+}
+
+/**
+ * Copy a tile layer of a map into a tilemap layer, with the map's tile flags
+ * The tilemap can then be changed, e.g. to remove collected tiles, while the map stays as loaded
+ * @param map Map ID (0-15)
+ * @param layer Tile layer index of the map
+ * @param tilemapLayer Tilemap layer (0-3)
+ * @param data Address for the tilemap cells (default: TILEMAP_DATA_ADDR)
+ */
+export function loadMap(map: i32, layer: i32, tilemapLayer: i32, data: usize = TILEMAP_DATA_ADDR): void {
+  const cols = getMapCols(map);
+  const rows = getMapRows(map);
+  if (layer < 0 || layer >= getMapLayerCount(map)) return;
+
+  setTilemapLayer(tilemapLayer, cols, rows, getMapTileWidth(map), getMapTileHeight(map), data);
+  memory.copy(data, layerData(map, layer), (cols * rows) as usize);
+
+  // Flags from the tileset, added to those set by the game
+  for (let tile: i32 = 1; tile < 256; tile++) {
+    const flags = load<u8>(MAP_TILE_FLAGS_ADDR + tile as usize) as i32;
+    if (flags != 0) setTileFlags(tile as u8, getTileFlags(tile as u8) | flags);
+  }
+}
@@ -23,6 +23,9 @@ export const FB_START = memoryMap.FB_START as usize;
 /** Framebuffer size in bytes */
 export const FB_SIZE = memoryMap.FB_SIZE as usize;
 
+/** Framebuffer bytes used in indexed mode (one palette index per pixel) */
+export const FB_INDEXED_SIZE = memoryMap.FB_INDEXED_SIZE as usize;
+
 // === Input Memory Map ===
 
 /** Keyboard input base address */
@@ -34,6 +37,18 @@ export const INPUT_BUTTONS_ADDR = memoryMap.INPUT_BUTTONS_ADDR as usize;
 /** Keyboard previous button state address */
 export const INPUT_BUTTONS_PREV_ADDR = memoryMap.INPUT_BUTTONS_PREV_ADDR as usize;
 
+/** Player 2 current button state address */
+export const INPUT_P2_BUTTONS_ADDR = memoryMap.INPUT_P2_BUTTONS_ADDR as usize;
+
+/** Player 2 previous button state address */
+export const INPUT_P2_BUTTONS_PREV_ADDR = memoryMap.INPUT_P2_BUTTONS_PREV_ADDR as usize;
+
+/** Bytes between the button pairs of consecutive players */
+export const INPUT_PLAYER_STRIDE = memoryMap.INPUT_PLAYER_STRIDE as usize;
+
+/** Number of controller ports */
+export const INPUT_PLAYER_COUNT = memoryMap.INPUT_PLAYER_COUNT as i32;
+
 /** Mouse state base address */
 export const MOUSE_ADDR = memoryMap.MOUSE_ADDR as usize;
 
@@ -60,15 +75,130 @@ export const SPRITE_METADATA_SIZE = memoryMap.SPRITE_METADATA_SIZE as usize;
 /** Sprite pixel data base address (after 256 sprite metadata entries) */
 export const SPRITE_DATA_ADDR = memoryMap.SPRITE_DATA_ADDR as usize;
 
-/** Maximum sprite data size (~128 KB) */
+/** Maximum sprite data size (~107 KB) */
 export const SPRITE_DATA_SIZE = memoryMap.SPRITE_DATA_SIZE as usize;
 
+// === Save RAM Memory Map ===
+
+/** Save RAM control register address */
+export const SAVE_CTRL_ADDR = memoryMap.SAVE_CTRL_ADDR as usize;
+
+/** Save RAM dirty flag address */
+export const SAVE_DIRTY_ADDR = memoryMap.SAVE_DIRTY_ADDR as usize;
+
+/** Save RAM start address */
+export const SAVE_RAM_ADDR = memoryMap.SAVE_RAM_ADDR as usize;
+
+/** Save RAM size in bytes (4 KB) */
+export const SAVE_RAM_SIZE = memoryMap.SAVE_RAM_SIZE as usize;
+
+// === Audio Memory Map ===
+
+/** Synthesizer registers base address */
+export const AUDIO_ADDR = memoryMap.AUDIO_ADDR as usize;
+
+/** Synthesizer register block size per channel (8 bytes) */
+export const AUDIO_CHANNEL_SIZE = memoryMap.AUDIO_CHANNEL_SIZE as usize;
+
+/** Number of synthesizer channels */
+export const AUDIO_CHANNEL_COUNT = memoryMap.AUDIO_CHANNEL_COUNT as i32;
+
+/** Channel control bit: hold the note while set */
+export const AUDIO_GATE = memoryMap.AUDIO_GATE as u8;
+
+/** Channel control bit: restart the envelope */
+export const AUDIO_TRIGGER = memoryMap.AUDIO_TRIGGER as u8;
+
+/** Music sequencer status address */
+export const MUSIC_ADDR = memoryMap.MUSIC_ADDR as usize;
+
+/** Music flag: a track is playing (or paused) */
+export const MUSIC_PLAYING = memoryMap.MUSIC_PLAYING as u8;
+
+/** Music flag: playback is paused */
+export const MUSIC_PAUSED = memoryMap.MUSIC_PAUSED as u8;
+
+// === Video Memory Map ===
+
+/** Video mode register address (set by the host before init()) */
+export const VIDEO_MODE_ADDR = memoryMap.VIDEO_MODE_ADDR as usize;
+
+/** Camera X register address (i32, world pixels) */
+export const CAMERA_X_ADDR = memoryMap.CAMERA_X_ADDR as usize;
+
+/** Camera Y register address (i32, world pixels) */
+export const CAMERA_Y_ADDR = memoryMap.CAMERA_Y_ADDR as usize;
+
+/** Clip rectangle left edge register address (u16, screen pixels) */
+export const CLIP_LEFT_ADDR = memoryMap.CLIP_LEFT_ADDR as usize;
+
+/** Clip rectangle top edge register address (u16) */
+export const CLIP_TOP_ADDR = memoryMap.CLIP_TOP_ADDR as usize;
+
+/** Clip rectangle right edge register address (u16, exclusive) */
+export const CLIP_RIGHT_ADDR = memoryMap.CLIP_RIGHT_ADDR as usize;
+
+/** Clip rectangle bottom edge register address (u16, exclusive) */
+export const CLIP_BOTTOM_ADDR = memoryMap.CLIP_BOTTOM_ADDR as usize;
+
+/** Palette address (256 ABGR entries) */
+export const PALETTE_ADDR = memoryMap.PALETTE_ADDR as usize;
+
+/** Number of palette entries */
+export const PALETTE_COLORS = memoryMap.PALETTE_COLORS as i32;
+
+/** Palette size in bytes */
+export const PALETTE_SIZE = memoryMap.PALETTE_SIZE as usize;
+
+// === Map Memory Map ===
+
+/** Map region address (one header per map ID) */
+export const MAP_ADDR = memoryMap.MAP_ADDR as usize;
+
+/** Number of map IDs */
+export const MAP_COUNT = memoryMap.MAP_COUNT as i32;
+
+/** Map header size (16 bytes) */
+export const MAP_HEADER_SIZE = memoryMap.MAP_HEADER_SIZE as usize;
+
+/** Map tile flags table address (one u8 per sprite ID) */
+export const MAP_TILE_FLAGS_ADDR = memoryMap.MAP_TILE_FLAGS_ADDR as usize;
+
+/** Map object size (12 bytes) */
+export const MAP_OBJECT_SIZE = memoryMap.MAP_OBJECT_SIZE as usize;
+
 /** Game RAM start address */
 export const RAM_START = memoryMap.RAM_START as usize;
 
-/** Game RAM size in bytes (256 KB) */
+/** Game RAM size in bytes (~82 KB) */
 export const RAM_SIZE = memoryMap.RAM_SIZE as usize;
 
+// === Tilemap Memory Map ===
+
+/** Tilemap region address (last TILEMAP_SIZE bytes of Game RAM) */
+export const TILEMAP_ADDR = memoryMap.TILEMAP_ADDR as usize;
+
+/** Tilemap region size in bytes */
+export const TILEMAP_SIZE = memoryMap.TILEMAP_SIZE as usize;
+
+/** Number of tilemap layers */
+export const TILEMAP_LAYER_COUNT = memoryMap.TILEMAP_LAYER_COUNT as i32;
+
+/** Tilemap layer header size (16 bytes) */
+export const TILEMAP_LAYER_SIZE = memoryMap.TILEMAP_LAYER_SIZE as usize;
+
+/** Layer flag: the layer repeats when scrolled past its edges */
+export const TILEMAP_WRAP = memoryMap.TILEMAP_WRAP as u8;
+
+/** Tile flags table address (one u8 per sprite ID) */
+export const TILE_FLAGS_ADDR = memoryMap.TILE_FLAGS_ADDR as usize;
+
+/** Tile cell storage address */
+export const TILEMAP_DATA_ADDR = memoryMap.TILEMAP_DATA_ADDR as usize;
+
+/** Tile cell storage size in bytes */
+export const TILEMAP_DATA_SIZE = memoryMap.TILEMAP_DATA_SIZE as usize;
+
 /**
  * Read a 32-bit signed integer from game RAM
  * @param offset Byte offset from RAM_START
@@ -138,3 +268,102 @@ export function getU16(offset: usize): u16 {
 export function setU16(offset: usize, value: u16): void {
   store<u16>(RAM_START + offset, value);
 }
+
+// === Save RAM ===
+// Persisted per cartridge by the host. Writes stay in memory until the
+// cartridge calls markSaveDirty() or commitSave().
+
+/**
+ * Write save RAM to storage right away
+ * Use markSaveDirty() when several writes happen in the same tick
+ */
+@external("env", "commitSave")
+export declare function commitSave(): void;
+
+/**
+ * Ask the host to write save RAM to storage after the current tick
+ */
+@inline
+export function markSaveDirty(): void {
+  store<u8>(SAVE_DIRTY_ADDR, 1);
+}
+
+/**
+ * Read a 32-bit signed integer from save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @returns The i32 value at the specified offset
+ */
+@inline
+export function getSaveI32(offset: usize): i32 {
+  return load<i32>(SAVE_RAM_ADDR + offset);
+}
+
+/**
+ * Write a 32-bit signed integer to save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @param value The i32 value to store
+ */
+@inline
+export function setSaveI32(offset: usize, value: i32): void {
+  store<i32>(SAVE_RAM_ADDR + offset, value);
+}
+
+/**
+ * Read a 32-bit floating point number from save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @returns The f32 value at the specified offset
+ */
+@inline
+export function getSaveF32(offset: usize): f32 {
+  return load<f32>(SAVE_RAM_ADDR + offset);
+}
+
+/**
+ * Write a 32-bit floating point number to save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @param value The f32 value to store
+ */
+@inline
+export function setSaveF32(offset: usize, value: f32): void {
+  store<f32>(SAVE_RAM_ADDR + offset, value);
+}
+
+/**
+ * Read an 8-bit unsigned integer from save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @returns The u8 value at the specified offset
+ */
+@inline
+export function getSaveU8(offset: usize): u8 {
+  return load<u8>(SAVE_RAM_ADDR + offset);
+}
+
+/**
+ * Write an 8-bit unsigned integer to save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @param value The u8 value to store
+ */
+@inline
+export function setSaveU8(offset: usize, value: u8): void {
+  store<u8>(SAVE_RAM_ADDR + offset, value);
+}
+
+/**
+ * Read a 16-bit unsigned integer from save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @returns The u16 value at the specified offset
+ */
+@inline
+export function getSaveU16(offset: usize): u16 {
+  return load<u16>(SAVE_RAM_ADDR + offset);
+}
+
+/**
+ * Write a 16-bit unsigned integer to save RAM
+ * @param offset Byte offset from SAVE_RAM_ADDR
+ * @param value The u16 value to store
+ */
+@inline
+export function setSaveU16(offset: usize, value: u16): void {
+  store<u16>(SAVE_RAM_ADDR + offset, value);
+}
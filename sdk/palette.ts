@@ -0,0 +1,133 @@
+// TinyForge SDK - Indexed Color
+// 8-bit framebuffer mode where every pixel is an index into a 256-color palette
+//
+// A cartridge opts in with an export next to init/update/draw:
+//
+// ```ts
+// export const videoMode = VideoMode.INDEXED;
+// ```
+//
+// Cartridges without it keep the RGBA framebuffer. In indexed mode the drawing
+// functions take a palette index (0-255) wherever they take a color, and the
+// host looks every pixel up in the palette when it presents the frame.
+// Changing an entry recolors every pixel using it, so palette cycling, fades
+// and flashes cost 256 writes instead of a redraw.
+//
+// The palette is part of save states, replays and rewind like Game RAM.
+
+import { PALETTE_ADDR, PALETTE_COLORS, VIDEO_MODE_ADDR } from "./memory";
+import { c } from "./color";
+
+/** Framebuffer formats, selected by the cartridge's `videoMode` export */
+export enum VideoMode {
+  RGBA = 0,
+  INDEXED = 1,
+}
+
+@inline
+function entryAddr(index: i32): usize {
+  return PALETTE_ADDR + ((index & 0xff) << 2) as usize;
+}
+
+/**
+ * Check if the framebuffer holds palette indexes
+ * @returns true in indexed mode
+ */
+@inline
+export function isIndexedMode(): bool {
+  return load<u8>(VIDEO_MODE_ADDR) == VideoMode.INDEXED;
+}
+
+/**
+ * Set a palette entry
+ * @param index Palette index (0-255)
+ * @param rgb Color in RGB format (0xRRGGBB)
+ */
+export function setPaletteColor(index: i32, rgb: u32): void {
+  store<u32>(entryAddr(index), c(rgb));
+}
+
+/**
+ * Get a palette entry
+ * @param index Palette index (0-255)
+ * @returns Color in RGB format (0xRRGGBB)
+ */
+export function getPaletteColor(index: i32): u32 {
+  const abgr = load<u32>(entryAddr(index));
+  return ((abgr & 0xff) << 16) | (abgr & 0x00ff00) | ((abgr >> 16) & 0xff);
+}
+
+/**
+ * Rotate a range of palette entries by one step (palette cycling)
+ * Pixels drawn with these indexes appear to move without being redrawn
+ * @param first First index of the range
+ * @param count Number of entries in the range
+ * @param reverse Rotate towards lower indexes instead (default: false)
+ * @example
+ * ```ts
+ * rotatePalette(32, 16);  // Every call, color 32 moves to 33, ..., 47 to 32
+ * ```
+ */
+export function rotatePalette(first: i32, count: i32, reverse: bool = false): void {
+  if (count < 2) return;
+  const last = first + count - 1;
+  if (reverse) {
+    const wrapped = load<u32>(entryAddr(first));
+    for (let i = first; i < last; i++) {
+      store<u32>(entryAddr(i), load<u32>(entryAddr(i + 1)));
+    }
+    store<u32>(entryAddr(last), wrapped);
+  } else {
+    const wrapped = load<u32>(entryAddr(last));
+    for (let i = last; i > first; i--) {
+      store<u32>(entryAddr(i), load<u32>(entryAddr(i - 1)));
+    }
+    store<u32>(entryAddr(first), wrapped);
+  }
+}
+
+/**
+ * Copy the palette to memory, e.g. to keep the original colors during a fade
+ * @param addr Destination address (PALETTE_SIZE bytes, usually in game RAM)
+ */
+export function savePalette(addr: usize): void {
+  for (let i: i32 = 0; i < PALETTE_COLORS; i++) {
+    store<u32>(addr + (i << 2) as usize, load<u32>(entryAddr(i)));
+  }
+}
+
+/**
+ * Replace the palette with a copy made by savePalette()
+ * @param addr Source address (PALETTE_SIZE bytes)
+ */
+export function loadPalette(addr: usize): void {
+  for (let i: i32 = 0; i < PALETTE_COLORS; i++) {
+    store<u32>(entryAddr(i), load<u32>(addr + (i << 2) as usize));
+  }
+}
+
+/**
+ * Set every palette entry to a mix of a saved palette and one color
+ * Fade to black with rgb = 0x000000, flash with rgb = 0xffffff
+ * @param addr Palette saved with savePalette()
+ * @param rgb Color to mix in (0xRRGGBB)
+ * @param amount 0.0 = saved palette, 1.0 = only rgb
+ * @example
+ * ```ts
+ * blendPalette(SAVED_PALETTE, 0x000000, fade);  // fade goes from 0.0 to 1.0
+ * ```
+ */
+export function blendPalette(addr: usize, rgb: u32, amount: f32): void {
+  const t = (min(max(amount, 0.0), 1.0) * 256.0) as u32;
+  const target = c(rgb);
+  for (let i: i32 = 0; i < PALETTE_COLORS; i++) {
+    const src = load<u32>(addr + (i << 2) as usize);
+    let mixed: u32 = 0xff000000;
+    for (let shift: u32 = 0; shift < 24; shift += 8) {
+      const from = (src >> shift) & 0xff;
+      const to = (target >> shift) & 0xff;
+      mixed |= (((from * (256 - t) + to * t) >> 8) & 0xff) << shift;
+    }
+    store<u32>(entryAddr(i), mixed);
+  }
+}
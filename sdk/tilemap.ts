@@ -0,0 +1,226 @@
+// TinyForge SDK - Tilemaps
+// Grid layers of sprite IDs for levels, with per-tile collision flags
+//
+// Up to TILEMAP_LAYER_COUNT layers live in the tilemap region at the end of
+// Game RAM (see TILEMAP_ADDR in memory-map.ts). Each cell holds the ID of the
+// sprite drawn there, 0 = empty, so any loaded sprite (or sprite sheet cell)
+// can be a tile. Draw a layer with drawTilemap() from drawing.ts.
+//
+// Example:
+// ```ts
+// setTilemapLayer(0, 40, 30, 8, 8);          // 40×30 tiles of 8×8 pixels
+// fillTiles(0, 0, 25, 40, 5, 20);            // Ground made of sprite 20
+// setTileFlags(20, TileFlag.SOLID);
+// if (getTileFlagsInRect(0, x, y + 1, 16, 32) & TileFlag.SOLID) { ... }
+// ```
+
+import { TILEMAP_ADDR, TILEMAP_DATA_ADDR, TILEMAP_LAYER_SIZE, TILEMAP_WRAP, TILE_FLAGS_ADDR } from "./memory";
+
+/** Collision flags of a tile, combine with | */
+export enum TileFlag {
+  SOLID = 1 << 0,
+  HAZARD = 1 << 1,
+  LADDER = 1 << 2,
+}
+
+@inline
+function layerAddr(layer: i32): usize {
+  return TILEMAP_ADDR + (layer as usize) * TILEMAP_LAYER_SIZE;
+}
+
+// Division rounding towards negative infinity, for pixels left of or above the map
+@inline
+function floorDiv(a: i32, b: i32): i32 {
+  const q = a / b;
+  return (a % b != 0 && (a < 0) != (b < 0)) ? q - 1 : q;
+}
+
+/**
+ * Configure a tilemap layer
+ * Cells are not cleared, use fillTiles() for a fresh layer
+ * @param layer Layer index (0-3)
+ * @param cols Width in tiles (0 disables the layer)
+ * @param rows Height in tiles
+ * @param tileWidth Tile width in pixels
+ * @param tileHeight Tile height in pixels
+ * @param data Address of cols × rows bytes of cells (default: TILEMAP_DATA_ADDR)
+ * @param wrap Repeat the layer in both directions, e.g. for backgrounds (default: false)
+ */
+export function setTilemapLayer(
+  layer: i32, cols: i32, rows: i32, tileWidth: i32, tileHeight: i32,
+  data: usize = TILEMAP_DATA_ADDR, wrap: bool = false
+): void {
+  const addr = layerAddr(layer);
+  store<u16>(addr, cols as u16);
+  store<u16>(addr + 2, rows as u16);
+  store<u8>(addr + 4, tileWidth as u8);
+  store<u8>(addr + 5, tileHeight as u8);
+  store<u8>(addr + 6, wrap ? TILEMAP_WRAP : 0);
+  store<u32>(addr + 8, data as u32);
+}
+
+/**
+ * Get the width of a layer
+ * @param layer Layer index (0-3)
+ * @returns Width in tiles (0 if the layer is unused)
+ */
+export function getTilemapCols(layer: i32): i32 {
+  return load<u16>(layerAddr(layer)) as i32;
+}
+
+/**
+ * Get the height of a layer
+ * @param layer Layer index (0-3)
+ * @returns Height in tiles
+ */
+export function getTilemapRows(layer: i32): i32 {
+  return load<u16>(layerAddr(layer) + 2) as i32;
+}
+
+/**
+ * Get the tile width of a layer
+ * @param layer Layer index (0-3)
+ * @returns Tile width in pixels
+ */
+export function getTileWidth(layer: i32): i32 {
+  return load<u8>(layerAddr(layer) + 4) as i32;
+}
+
+/**
+ * Get the tile height of a layer
+ * @param layer Layer index (0-3)
+ * @returns Tile height in pixels
+ */
+export function getTileHeight(layer: i32): i32 {
+  return load<u8>(layerAddr(layer) + 5) as i32;
+}
+
+/**
+ * Check if a layer repeats in both directions
+ * @param layer Layer index (0-3)
+ */
+export function isTilemapWrapped(layer: i32): bool {
+  return (load<u8>(layerAddr(layer) + 6) & TILEMAP_WRAP) != 0;
+}
+
+/**
+ * Get the address of a layer's cells
+ * @param layer Layer index (0-3)
+ * @returns Address of the first cell, cells are stored row by row
+ */
+export function getTilemapData(layer: i32): usize {
+  return load<u32>(layerAddr(layer) + 8) as usize;
+}
+
+/**
+ * Get the tile in a cell
+ * @param layer Layer index (0-3)
+ * @param col Column
+ * @param row Row
+ * @returns Sprite ID, 0 for empty cells and cells outside a non-wrapping layer
+ */
+export function getTile(layer: i32, col: i32, row: i32): u8 {
+  const cols = getTilemapCols(layer);
+  const rows = getTilemapRows(layer);
+  if (cols == 0 || rows == 0) return 0;
+  if (isTilemapWrapped(layer)) {
+    col = ((col % cols) + cols) % cols;
+    row = ((row % rows) + rows) % rows;
+  } else if (col < 0 || col >= cols || row < 0 || row >= rows) {
+    return 0;
+  }
+  return load<u8>(getTilemapData(layer) + (row * cols + col) as usize);
+}
+
+/**
+ * Set the tile in a cell, cells outside the layer are ignored
+ * @param layer Layer index (0-3)
+ * @param col Column
+ * @param row Row
+ * @param tile Sprite ID, 0 = empty
+ */
+export function setTile(layer: i32, col: i32, row: i32, tile: u8): void {
+  const cols = getTilemapCols(layer);
+  if (col < 0 || col >= cols || row < 0 || row >= getTilemapRows(layer)) return;
+  store<u8>(getTilemapData(layer) + (row * cols + col) as usize, tile);
+}
+
+/**
+ * Set the tiles in a rectangle of cells
+ * @param layer Layer index (0-3)
+ * @param col First column
+ * @param row First row
+ * @param width Number of columns
+ * @param height Number of rows
+ * @param tile Sprite ID, 0 = empty
+ */
+export function fillTiles(layer: i32, col: i32, row: i32, width: i32, height: i32, tile: u8): void {
+  for (let r = row; r < row + height; r++) {
+    for (let c = col; c < col + width; c++) {
+      setTile(layer, c, r, tile);
+    }
+  }
+}
+
+/**
+ * Set the collision flags of a tile, shared by all layers
+ * @param tile Sprite ID
+ * @param flags TileFlag values combined with |
+ */
+export function setTileFlags(tile: u8, flags: i32): void {
+  store<u8>(TILE_FLAGS_ADDR + tile as usize, flags as u8);
+}
+
+/**
+ * Get the collision flags of a tile
+ * @param tile Sprite ID
+ * @returns TileFlag values (0 for tile 0, the empty cell)
+ */
+export function getTileFlags(tile: u8): i32 {
+  return tile == 0 ? 0 : load<u8>(TILE_FLAGS_ADDR + tile as usize) as i32;
+}
+
+/**
+ * Get the flags of the tile under a pixel
+ * @param layer Layer index (0-3)
+ * @param x X coordinate in layer pixels (not affected by scrolling)
+ * @param y Y coordinate in layer pixels
+ * @returns TileFlag values, 0 outside a non-wrapping layer
+ */
+export function getTileFlagsAt(layer: i32, x: i32, y: i32): i32 {
+  const tileWidth = getTileWidth(layer);
+  const tileHeight = getTileHeight(layer);
+  if (tileWidth == 0 || tileHeight == 0) return 0;
+  return getTileFlags(getTile(layer, floorDiv(x, tileWidth), floorDiv(y, tileHeight)));
+}
+
+/**
+ * Get the flags of all tiles a rectangle overlaps, e.g. a collision box
+ * @param layer Layer index (0-3)
+ * @param x Left edge in layer pixels
+ * @param y Top edge in layer pixels
+ * @param w Width in pixels
+ * @param h Height in pixels
+ * @returns TileFlag values of all overlapped tiles combined with |
+ * @example
+ * ```ts
+ * // Standing on something solid?
+ * const below = getTileFlagsInRect(0, px, py + PLAYER_HEIGHT, PLAYER_WIDTH, 1);
+ * if (below & TileFlag.SOLID) grounded = true;
+ * ```
+ */
+export function getTileFlagsInRect(layer: i32, x: i32, y: i32, w: i32, h: i32): i32 {
+  const tileWidth = getTileWidth(layer);
+  const tileHeight = getTileHeight(layer);
+  if (tileWidth == 0 || tileHeight == 0 || w <= 0 || h <= 0) return 0;
+
+  let flags = 0;
+  const lastCol = floorDiv(x + w - 1, tileWidth);
+  const lastRow = floorDiv(y + h - 1, tileHeight);
+  for (let row = floorDiv(y, tileHeight); row <= lastRow; row++) {
+    for (let col = floorDiv(x, tileWidth); col <= lastCol; col++) {
+      flags |= getTileFlags(getTile(layer, col, row));
+    }
+  }
+  return flags;
+}
@@ -1,7 +1,7 @@
 // TinyForge SDK - Utility Functions
 // Helper classes and convenience functions for common game tasks
 
-import { fillRect, drawRect, drawString } from "./drawing";
+import { fillRectScreen, drawRectScreen, drawStringScreen } from "./drawing";
 import { c } from "./color";
 
 /**
@@ -81,6 +81,7 @@ export function random(seedVar: usize): i32 {
 /**
  * Draw a styled message box with title and optional subtitle
  * All text positions are specified as offsets relative to the box corner
+ * The box is drawn in screen coordinates, the camera does not move it
  *
  * @param pos Top-left corner of the box
  * @param size Width and height of the box
@@ -112,11 +113,11 @@ export function drawMessageBox(
   bgColor: u32,
   fgColor: u32,
 ): void {
-  fillRect(pos.x, pos.y, size.x, size.y, bgColor);
-  drawRect(pos.x, pos.y, size.x, size.y, fgColor);
-  drawString(pos.x + titleOffset.x, pos.y + titleOffset.y, title, fgColor);
+  fillRectScreen(pos.x, pos.y, size.x, size.y, bgColor);
+  drawRectScreen(pos.x, pos.y, size.x, size.y, fgColor);
+  drawStringScreen(pos.x + titleOffset.x, pos.y + titleOffset.y, title, fgColor);
   if (subtitle.length > 0) {
-    drawString(
+    drawStringScreen(
       pos.x + subtitleOffset.x,
       pos.y + subtitleOffset.y,
       subtitle,